@@ -7,6 +7,7 @@ import type {
   DiscrepancyReport,
   ComparisonResult,
   TypeMismatch,
+  LengthLimit,
 } from "./types.js";
 import {
   loadTranslationFile,
@@ -19,13 +20,21 @@ import {
   printHeader,
   printSection,
 } from "./utils.js";
+import { loadSourceHashes, hashSourceValue } from "./lockfile.js";
+import { findLengthOverflows } from "./length.js";
 
 /**
- * Compare two translation files and generate a discrepancy report
+ * Compare two translation files and generate a discrepancy report.
+ * `sourceHashes` (from the lockfile) are the hashes of the source values the
+ * target was translated from; keys whose source changed since are stale.
+ * Translations over their key's length limit (inline `maxLength`, or
+ * `lengthLimits` from the config) are reported as overLength.
  */
 export function compareTranslations(
   source: TranslationFile,
   target: TranslationFile,
+  sourceHashes: Record<string, string> = {},
+  lengthLimits: Record<string, LengthLimit> = {},
 ): DiscrepancyReport {
   const sourceKeys = flattenKeys(source);
   const targetKeys = flattenKeys(target);
@@ -63,16 +72,34 @@ export function compareTranslations(
     }
   }
 
+  // Find stale keys (source value edited since the key was translated)
+  const staleInTarget = sourceKeys.filter((key) => {
+    const recorded = sourceHashes[key];
+    const sourceValue = getValueAtPath(source, key);
+    return (
+      recorded !== undefined &&
+      targetKeySet.has(key) &&
+      typeof sourceValue === "string" &&
+      hashSourceValue(sourceValue) !== recorded
+    );
+  });
+
+  const overLength = findLengthOverflows(source, target, lengthLimits);
+
   return {
     missingInTarget,
     extraInTarget,
     typeMismatches,
+    staleInTarget,
+    overLength,
     summary: {
       totalKeysInSource: sourceKeys.length,
       totalKeysInTarget: targetKeys.length,
       missingCount: missingInTarget.length,
       extraCount: extraInTarget.length,
       typeMismatchCount: typeMismatches.length,
+      staleCount: staleInTarget.length,
+      overLengthCount: overLength.length,
     },
   };
 }
@@ -82,6 +109,7 @@ export function compareTranslations(
  */
 export function analyzeAllFiles(
   referenceFile: string = "en.json",
+  lengthLimits: Record<string, LengthLimit> = {},
 ): ComparisonResult[] {
   const files = listTranslationFiles();
   const results: ComparisonResult[] = [];
@@ -99,7 +127,12 @@ export function analyzeAllFiles(
     if (filePath === refFilePath) continue;
 
     const targetContent = loadTranslationFile(filePath);
-    const report = compareTranslations(referenceContent, targetContent);
+    const report = compareTranslations(
+      referenceContent,
+      targetContent,
+      loadSourceHashes(getLanguageCode(filePath)),
+      lengthLimits,
+    );
 
     results.push({
       sourceFile: refFilePath,
@@ -150,6 +183,9 @@ export function printDiscrepancyReport(result: ComparisonResult): void {
   const missingColor = report.summary.missingCount > 0 ? "red" : "green";
   const extraColor = report.summary.extraCount > 0 ? "yellow" : "green";
   const mismatchColor = report.summary.typeMismatchCount > 0 ? "red" : "green";
+  const staleColor = report.summary.staleCount > 0 ? "yellow" : "green";
+  const overLengthColor =
+    report.summary.overLengthCount > 0 ? "yellow" : "green";
 
   console.log(
     `  Missing: ${colorize(report.summary.missingCount.toString(), missingColor)}`,
@@ -160,6 +196,12 @@ export function printDiscrepancyReport(result: ComparisonResult): void {
   console.log(
     `  Type mismatches: ${colorize(report.summary.typeMismatchCount.toString(), mismatchColor)}`,
   );
+  console.log(
+    `  Stale: ${colorize(report.summary.staleCount.toString(), staleColor)}`,
+  );
+  console.log(
+    `  Over length limit: ${colorize(report.summary.overLengthCount.toString(), overLengthColor)}`,
+  );
 
   // Missing keys
   if (report.missingInTarget.length > 0) {
@@ -204,9 +246,41 @@ export function printDiscrepancyReport(result: ComparisonResult): void {
     }
   }
 
+  // Stale keys
+  if (report.staleInTarget.length > 0) {
+    printSection(
+      `Stale keys in ${targetLang} — ${sourceLang} changed since translation (${report.staleInTarget.length})`,
+    );
+
+    const grouped = groupKeysBySection(report.staleInTarget);
+    for (const [section, keys] of Object.entries(grouped)) {
+      console.log(colorize(`  [${section}]`, "magenta"));
+      for (const key of keys) {
+        console.log(`    ${colorize("↻", "yellow")} ${key}`);
+      }
+    }
+  }
+
+  // Over-length translations
+  if (report.overLength.length > 0) {
+    printSection(
+      `Over the length limit in ${targetLang} (${report.overLength.length})`,
+    );
+
+    for (const overflow of report.overLength) {
+      console.log(
+        `  ${colorize("↔", "yellow")} ${overflow.key} ${colorize(`(${overflow.length}/${overflow.maxLength} chars)`, "dim")}`,
+      );
+      console.log(`    "${overflow.value}"`);
+    }
+  }
+
   // Status
   const hasIssues =
-    report.summary.missingCount > 0 || report.summary.typeMismatchCount > 0;
+    report.summary.missingCount > 0 ||
+    report.summary.typeMismatchCount > 0 ||
+    report.summary.staleCount > 0 ||
+    report.summary.overLengthCount > 0;
 
   if (hasIssues) {
     console.log(
@@ -247,13 +321,21 @@ export function generateJsonReport(results: ComparisonResult[]): string {
 export function checkFileSync(
   referenceFile: string,
   targetFile: string,
+  lengthLimits: Record<string, LengthLimit> = {},
 ): { inSync: boolean; report: DiscrepancyReport } {
   const reference = loadTranslationFile(referenceFile);
   const target = loadTranslationFile(targetFile);
 
-  const report = compareTranslations(reference, target);
+  const report = compareTranslations(
+    reference,
+    target,
+    loadSourceHashes(getLanguageCode(targetFile)),
+    lengthLimits,
+  );
   const inSync =
-    report.summary.missingCount === 0 && report.summary.typeMismatchCount === 0;
+    report.summary.missingCount === 0 &&
+    report.summary.typeMismatchCount === 0 &&
+    report.summary.staleCount === 0;
 
   return { inSync, report };
 }
@@ -7,20 +7,200 @@
 
 import * as fs from "fs";
 import * as path from "path";
-import type { Transl8Config, LinkedContentPattern } from "./types.js";
+import type {
+  Transl8Config,
+  LinkedContentPattern,
+  ApiMode,
+  MockProviderConfig,
+  RetryConfig,
+  ModelPrice,
+  LanguageStyle,
+  PromptTemplates,
+  LengthLimit,
+} from "./types.js";
 
 const CONFIG_FILE_NAME = ".transl8rc.json";
 
 const DEFAULT_CONFIG: Transl8Config = {
   messagesDir: "./messages",
   sourceLanguage: "en",
+  provider: "openai",
   model: "gpt-5.2",
+  headers: {},
+  apiMode: "responses",
   concurrency: 50,
+  batchSize: 1,
+  retry: { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000 },
+  validationRetries: 2,
   glossaryPath: "./glossary.json",
+  contextPath: "./context.json",
+  stateDir: "./.transl8",
+  translationMemory: true,
+  prices: {},
+  styles: {},
+  prompts: {},
+  lengthLimits: {},
   linkedContentPatterns: [],
   hrefPatterns: ["*.href"],
 };
 
+/**
+ * Check whether a value is a supported API mode
+ */
+export function isApiMode(value: unknown): value is ApiMode {
+  return value === "responses" || value === "chat";
+}
+
+/**
+ * Check whether a value is a supported mock provider mode
+ */
+export function isMockMode(value: unknown): value is MockProviderConfig["mode"] {
+  return value === "echo" || value === "pseudo" || value === "fixtures";
+}
+
+/**
+ * Parse the `mock` provider section, ignoring malformed fields
+ */
+function parseMockConfig(value: unknown): MockProviderConfig | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  const raw = value as Record<string, unknown>;
+  const mock: MockProviderConfig = {
+    mode: isMockMode(raw.mode) ? raw.mode : "pseudo",
+  };
+  if (typeof raw.fixturesPath === "string") {
+    mock.fixturesPath = raw.fixturesPath;
+  }
+  if (Array.isArray(raw.failKeys)) {
+    mock.failKeys = raw.failKeys.filter(
+      (k): k is string => typeof k === "string",
+    );
+  }
+  if (typeof raw.failRate === "number") {
+    mock.failRate = raw.failRate;
+  }
+  if (typeof raw.failStatus === "number") {
+    mock.failStatus = raw.failStatus;
+  }
+  return mock;
+}
+
+/**
+ * Parse the `retry` section, filling unset fields from the defaults
+ */
+function parseRetryConfig(value: unknown): RetryConfig | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  const raw = value as Record<string, unknown>;
+  const retry: RetryConfig = { ...DEFAULT_CONFIG.retry };
+  if (typeof raw.maxRetries === "number") retry.maxRetries = raw.maxRetries;
+  if (typeof raw.baseDelayMs === "number") retry.baseDelayMs = raw.baseDelayMs;
+  if (typeof raw.maxDelayMs === "number") retry.maxDelayMs = raw.maxDelayMs;
+  return retry;
+}
+
+/**
+ * Parse the `prices` table, keeping only entries with numeric input/output
+ */
+function parsePrices(value: unknown): Record<string, ModelPrice> | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  const prices: Record<string, ModelPrice> = {};
+  for (const [model, price] of Object.entries(value)) {
+    const raw = price as Record<string, unknown> | null;
+    if (typeof raw?.input === "number" && typeof raw?.output === "number") {
+      prices[model] = { input: raw.input, output: raw.output };
+      if (typeof raw.cachedInput === "number") {
+        prices[model].cachedInput = raw.cachedInput;
+      }
+    }
+  }
+  return prices;
+}
+
+/**
+ * Parse the per-language `styles`, keeping only known fields with valid values
+ */
+function parseStyles(
+  value: unknown,
+): Record<string, LanguageStyle> | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  const styles: Record<string, LanguageStyle> = {};
+  for (const [language, raw] of Object.entries(value)) {
+    if (typeof raw !== "object" || raw === null) continue;
+    const entry = raw as Record<string, unknown>;
+    const style: LanguageStyle = {};
+    if (entry.formality === "formal" || entry.formality === "informal") {
+      style.formality = entry.formality;
+    }
+    for (const field of ["audience", "pronouns", "voice"] as const) {
+      if (typeof entry[field] === "string") style[field] = entry[field];
+    }
+    styles[language] = style;
+  }
+  return styles;
+}
+
+/**
+ * Parse the `prompts` template paths, ignoring unknown and non-string fields
+ */
+function parsePrompts(value: unknown): PromptTemplates | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  const entry = value as Record<string, unknown>;
+  const prompts: PromptTemplates = {};
+  for (const field of [
+    "system",
+    "translation",
+    "descriptionWithLinks",
+  ] as const) {
+    if (typeof entry[field] === "string") prompts[field] = entry[field];
+  }
+  return prompts;
+}
+
+/**
+ * Parse the per-pattern `lengthLimits`, dropping entries without a positive
+ * maxChars or maxRatio
+ */
+function parseLengthLimits(
+  value: unknown,
+): Record<string, LengthLimit> | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  const limits: Record<string, LengthLimit> = {};
+  for (const [pattern, raw] of Object.entries(value)) {
+    if (typeof raw !== "object" || raw === null) continue;
+    const entry = raw as Record<string, unknown>;
+    const limit: LengthLimit = {};
+    for (const field of ["maxChars", "maxRatio"] as const) {
+      const n = entry[field];
+      if (typeof n === "number" && n > 0) limit[field] = n;
+    }
+    if (limit.maxChars || limit.maxRatio) limits[pattern] = limit;
+  }
+  return limits;
+}
+
+/**
+ * Keep only string-valued entries of a headers object
+ */
+function parseHeaders(value: unknown): Record<string, string> | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+  const headers: Record<string, string> = {};
+  for (const [name, headerValue] of Object.entries(value)) {
+    if (typeof headerValue === "string") {
+      headers[name] = headerValue;
+    }
+  }
+  return headers;
+}
+
 /**
  * Walk upward from startDir looking for .transl8rc.json.
  * Returns the full path if found, null otherwise.
@@ -56,15 +236,73 @@ function parseConfigFile(filePath: string): Partial<Transl8Config> {
   if (typeof parsed.sourceLanguage === "string") {
     result.sourceLanguage = parsed.sourceLanguage;
   }
+  if (typeof parsed.provider === "string") {
+    result.provider = parsed.provider;
+  }
   if (typeof parsed.model === "string") {
     result.model = parsed.model;
   }
+  if (typeof parsed.baseURL === "string") {
+    result.baseURL = parsed.baseURL;
+  }
+  const headers = parseHeaders(parsed.headers);
+  if (headers) {
+    result.headers = headers;
+  }
+  if (typeof parsed.timeout === "number") {
+    result.timeout = parsed.timeout;
+  }
+  if (isApiMode(parsed.apiMode)) {
+    result.apiMode = parsed.apiMode;
+  }
+  const mock = parseMockConfig(parsed.mock);
+  if (mock) {
+    result.mock = mock;
+  }
   if (typeof parsed.concurrency === "number") {
     result.concurrency = parsed.concurrency;
   }
+  if (typeof parsed.batchSize === "number") {
+    result.batchSize = parsed.batchSize;
+  }
+  const retry = parseRetryConfig(parsed.retry);
+  if (retry) {
+    result.retry = retry;
+  }
+  if (typeof parsed.validationRetries === "number") {
+    result.validationRetries = parsed.validationRetries;
+  }
   if (typeof parsed.glossaryPath === "string") {
     result.glossaryPath = parsed.glossaryPath;
   }
+  if (typeof parsed.contextPath === "string") {
+    result.contextPath = parsed.contextPath;
+  }
+  if (typeof parsed.stateDir === "string") {
+    result.stateDir = parsed.stateDir;
+  }
+  if (typeof parsed.translationMemory === "boolean") {
+    result.translationMemory = parsed.translationMemory;
+  }
+  const prices = parsePrices(parsed.prices);
+  if (prices) {
+    result.prices = prices;
+  }
+  if (typeof parsed.maxBudget === "number" && parsed.maxBudget > 0) {
+    result.maxBudget = parsed.maxBudget;
+  }
+  const styles = parseStyles(parsed.styles);
+  if (styles) {
+    result.styles = styles;
+  }
+  const prompts = parsePrompts(parsed.prompts);
+  if (prompts) {
+    result.prompts = prompts;
+  }
+  const lengthLimits = parseLengthLimits(parsed.lengthLimits);
+  if (lengthLimits) {
+    result.lengthLimits = lengthLimits;
+  }
   if (Array.isArray(parsed.linkedContentPatterns)) {
     result.linkedContentPatterns =
       parsed.linkedContentPatterns as LinkedContentPattern[];
@@ -77,31 +315,85 @@ function parseConfigFile(filePath: string): Partial<Transl8Config> {
 }
 
 /**
- * Read env-var overrides (TRANSL8_MODEL, TRANSL8_CONCURRENCY).
+ * Read env-var overrides (TRANSL8_PROVIDER, TRANSL8_MODEL, TRANSL8_BASE_URL,
+ * TRANSL8_HEADERS, TRANSL8_TIMEOUT, TRANSL8_API_MODE, TRANSL8_CONCURRENCY,
+ * TRANSL8_BATCH_SIZE). TRANSL8_MAX_RETRIES is merged into `retry` by loadConfig.
  */
 function getEnvOverrides(): Partial<Transl8Config> {
   const result: Partial<Transl8Config> = {};
 
+  if (process.env.TRANSL8_PROVIDER) {
+    result.provider = process.env.TRANSL8_PROVIDER;
+  }
   if (process.env.TRANSL8_MODEL) {
     result.model = process.env.TRANSL8_MODEL;
   }
+  if (process.env.TRANSL8_BASE_URL) {
+    result.baseURL = process.env.TRANSL8_BASE_URL;
+  }
+  if (process.env.TRANSL8_HEADERS) {
+    // JSON object, e.g. {"X-Api-Gateway":"internal"}
+    try {
+      const headers = parseHeaders(JSON.parse(process.env.TRANSL8_HEADERS));
+      if (headers) {
+        result.headers = headers;
+      }
+    } catch {
+      // Ignore malformed header JSON
+    }
+  }
+  if (process.env.TRANSL8_TIMEOUT) {
+    const n = parseInt(process.env.TRANSL8_TIMEOUT, 10);
+    if (!isNaN(n) && n > 0) {
+      result.timeout = n;
+    }
+  }
+  if (isApiMode(process.env.TRANSL8_API_MODE)) {
+    result.apiMode = process.env.TRANSL8_API_MODE;
+  }
   if (process.env.TRANSL8_CONCURRENCY) {
     const n = parseInt(process.env.TRANSL8_CONCURRENCY, 10);
     if (!isNaN(n) && n > 0) {
       result.concurrency = n;
     }
   }
+  if (process.env.TRANSL8_BATCH_SIZE) {
+    const n = parseInt(process.env.TRANSL8_BATCH_SIZE, 10);
+    if (!isNaN(n) && n > 0) {
+      result.batchSize = n;
+    }
+  }
 
   return result;
 }
 
 export interface LoadConfigOptions {
+  /** CLI --provider flag */
+  provider?: string;
   /** CLI --model flag */
   model?: string;
+  /** CLI --base-url flag */
+  baseURL?: string;
+  /** CLI --header flags, merged over config-file headers */
+  headers?: Record<string, string>;
+  /** CLI --timeout flag */
+  timeout?: number;
+  /** CLI --api-mode flag */
+  apiMode?: ApiMode;
+  /** CLI --mock-mode flag */
+  mockMode?: MockProviderConfig["mode"];
   /** CLI --concurrency flag */
   concurrency?: number;
+  /** CLI --batch-size flag */
+  batchSize?: number;
+  /** CLI --max-retries flag */
+  maxRetries?: number;
   /** CLI --messages flag */
   messagesDir?: string;
+  /** CLI --no-translation-memory flag */
+  translationMemory?: boolean;
+  /** CLI --max-budget flag */
+  maxBudget?: number;
 }
 
 /**
@@ -127,17 +419,55 @@ export function loadConfig(overrides?: LoadConfigOptions): Transl8Config {
   // Merge env vars
   const envConfig = getEnvOverrides();
   config = { ...config, ...envConfig };
+  if (process.env.TRANSL8_MAX_RETRIES) {
+    const n = parseInt(process.env.TRANSL8_MAX_RETRIES, 10);
+    if (!isNaN(n) && n >= 0) {
+      config.retry = { ...config.retry, maxRetries: n };
+    }
+  }
 
   // Merge CLI flag overrides
   if (overrides) {
+    if (overrides.provider) config.provider = overrides.provider;
     if (overrides.model) config.model = overrides.model;
+    if (overrides.baseURL) config.baseURL = overrides.baseURL;
+    if (overrides.headers) {
+      config.headers = { ...config.headers, ...overrides.headers };
+    }
+    if (overrides.timeout) config.timeout = overrides.timeout;
+    if (overrides.apiMode) config.apiMode = overrides.apiMode;
+    if (overrides.mockMode) {
+      config.mock = { ...config.mock, mode: overrides.mockMode };
+    }
     if (overrides.concurrency) config.concurrency = overrides.concurrency;
+    if (overrides.batchSize) config.batchSize = overrides.batchSize;
+    if (overrides.maxRetries !== undefined && !isNaN(overrides.maxRetries)) {
+      config.retry = { ...config.retry, maxRetries: overrides.maxRetries };
+    }
     if (overrides.messagesDir) config.messagesDir = overrides.messagesDir;
+    if (overrides.translationMemory === false) {
+      config.translationMemory = false;
+    }
+    if (overrides.maxBudget) config.maxBudget = overrides.maxBudget;
   }
 
   // Resolve relative paths against config file directory
   config.messagesDir = path.resolve(configDir, config.messagesDir);
   config.glossaryPath = path.resolve(configDir, config.glossaryPath);
+  config.contextPath = path.resolve(configDir, config.contextPath);
+  config.stateDir = path.resolve(configDir, config.stateDir);
+  config.prompts = Object.fromEntries(
+    Object.entries(config.prompts).map(([kind, file]) => [
+      kind,
+      path.resolve(configDir, file),
+    ]),
+  );
+  if (config.mock?.fixturesPath) {
+    config.mock = {
+      ...config.mock,
+      fixturesPath: path.resolve(configDir, config.mock.fixturesPath),
+    };
+  }
 
   return config;
 }
@@ -152,6 +482,7 @@ export function createDefaultConfig(dir?: string): string {
   const defaultContent = {
     messagesDir: "./messages",
     sourceLanguage: "en",
+    provider: "openai",
     model: "gpt-5.2",
     concurrency: 50,
     glossaryPath: "./glossary.json",
@@ -0,0 +1,268 @@
+/**
+ * Cost estimation — counts the tokens of the exact requests a run would send
+ * and prices them, so large runs can be checked before they start
+ */
+
+import { countTokens } from "gpt-tokenizer/encoding/o200k_base";
+import type { ModelPrice, ProviderRequest, TokenUsage } from "./types.js";
+import { getTranslatorConfig, planTranslationRequests } from "./translator.js";
+import { colorize, printHeader, printSection } from "./utils.js";
+
+/**
+ * Built-in prices in USD per 1M tokens. Override or extend with `prices` in
+ * .transl8rc.json when these are out of date or for other models.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "gpt-5.2": { input: 1.75, cachedInput: 0.175, output: 14 },
+  "gpt-5.1": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5": { input: 1.25, cachedInput: 0.125, output: 10 },
+  "gpt-5-mini": { input: 0.25, cachedInput: 0.025, output: 2 },
+  "gpt-5-nano": { input: 0.05, cachedInput: 0.005, output: 0.4 },
+  "gpt-4.1": { input: 2, cachedInput: 0.5, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, cachedInput: 0.1, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, cachedInput: 0.025, output: 0.4 },
+  "gpt-4o": { input: 2.5, cachedInput: 1.25, output: 10 },
+  "gpt-4o-mini": { input: 0.15, cachedInput: 0.075, output: 0.6 },
+};
+
+/** Chat formatting tokens added around the system and user messages */
+const REQUEST_OVERHEAD_TOKENS = 10;
+
+/**
+ * Translations usually run longer than the English source, and non-Latin
+ * scripts take more tokens per word
+ */
+const OUTPUT_TOKEN_RATIO = 1.5;
+
+export interface CostEstimate {
+  language: string;
+  model: string;
+  requests: number;
+  /** Keys served from the translation memory (no request) */
+  cachedKeys: number;
+  /** Keys copied from the source (href keys, no request) */
+  copiedKeys: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Projected cost in USD, or null when the model has no known price */
+  cost: number | null;
+}
+
+/** Token counts of repeated strings (the system prompt is the same for every request) */
+const tokenCache = new Map<string, number>();
+
+function countTokensCached(text: string): number {
+  let count = tokenCache.get(text);
+  if (count === undefined) {
+    count = countTokens(text);
+    tokenCache.set(text, count);
+  }
+  return count;
+}
+
+/**
+ * Look up the price of a model: config `prices` first, then the built-in
+ * table. Dated snapshots (gpt-4o-2024-08-06) fall back to the base model.
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const prices = { ...DEFAULT_PRICES, ...getTranslatorConfig().prices };
+  return prices[model] ?? prices[model.replace(/-\d{4}-\d{2}-\d{2}$/, "")];
+}
+
+/**
+ * Price token usage for a model in USD, or null when the model has no known
+ * price. Cached input tokens are billed at `cachedInput` when set.
+ */
+export function calculateCost(model: string, usage: TokenUsage): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+  const uncached = usage.inputTokens - usage.cachedTokens;
+  return (
+    (uncached * price.input +
+      usage.cachedTokens * (price.cachedInput ?? price.input) +
+      usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Estimate the output tokens of a request from the text it asks to translate
+ */
+function estimateOutputTokens(request: ProviderRequest): number {
+  const { task } = request;
+  const translated = (text: string) =>
+    Math.ceil(countTokens(text) * OUTPUT_TOKEN_RATIO);
+
+  switch (task.type) {
+    case "batch":
+      // JSON object: quoted key, colon, quoted value and comma per item
+      return (
+        2 +
+        task.items.reduce(
+          (sum, item) =>
+            sum + countTokens(item.key) + translated(item.source) + 4,
+          0,
+        )
+      );
+    case "descriptionWithLinks":
+      return (
+        10 +
+        translated(task.source) +
+        task.linkTexts.reduce((sum, text) => sum + translated(text) + 2, 0)
+      );
+    default:
+      return translated(task.source);
+  }
+}
+
+/**
+ * Count the input tokens of a request and estimate its output tokens
+ */
+export function estimateRequestTokens(request: ProviderRequest): {
+  inputTokens: number;
+  outputTokens: number;
+} {
+  const schemaTokens = request.responseFormat
+    ? countTokens(JSON.stringify(request.responseFormat.schema))
+    : 0;
+  return {
+    inputTokens:
+      countTokensCached(request.instructions) +
+      countTokens(request.input) +
+      schemaTokens +
+      REQUEST_OVERHEAD_TOKENS,
+    outputTokens: estimateOutputTokens(request),
+  };
+}
+
+/**
+ * Estimate translating `keys` (all source keys when omitted) into a language
+ */
+export function estimateTranslationCost(
+  language: string,
+  keys?: string[],
+): CostEstimate {
+  const { model } = getTranslatorConfig();
+  const { requests, cachedKeys, copiedKeys } = planTranslationRequests(
+    language,
+    keys,
+  );
+
+  let inputTokens = 0;
+  let outputTokens = 0;
+  for (const request of requests) {
+    const tokens = estimateRequestTokens(request);
+    inputTokens += tokens.inputTokens;
+    outputTokens += tokens.outputTokens;
+  }
+
+  const cost = calculateCost(model, {
+    inputTokens,
+    outputTokens,
+    cachedTokens: 0,
+  });
+
+  return {
+    language,
+    model,
+    requests: requests.length,
+    cachedKeys,
+    copiedKeys,
+    inputTokens,
+    outputTokens,
+    cost,
+  };
+}
+
+/**
+ * Format a USD amount, keeping precision for small amounts
+ */
+export function formatCost(cost: number | null): string {
+  if (cost === null) return "unknown";
+  return cost < 0.01 && cost > 0
+    ? `$${cost.toFixed(4)}`
+    : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Throw when the estimated cost of a run exceeds `maxBudget`. Without a
+ * known price the budget can't be checked, which also aborts.
+ */
+export function assertWithinBudget(estimates: CostEstimate[]): void {
+  const { maxBudget, model } = getTranslatorConfig();
+  if (maxBudget === undefined) return;
+
+  if (estimates.some((e) => e.cost === null && e.requests > 0)) {
+    throw new Error(
+      `Cannot check maxBudget: no price known for model "${model}". Add it to "prices" in .transl8rc.json.`,
+    );
+  }
+  const total = estimates.reduce((sum, e) => sum + (e.cost ?? 0), 0);
+  if (total > maxBudget) {
+    throw new Error(
+      `Estimated cost ${formatCost(total)} exceeds maxBudget ${formatCost(maxBudget)}. Raise maxBudget or translate fewer keys.`,
+    );
+  }
+}
+
+/**
+ * Print a cost estimate table
+ */
+export function printCostEstimate(estimates: CostEstimate[]): void {
+  const model = estimates[0]?.model || getTranslatorConfig().model;
+  printHeader("Cost Estimate");
+
+  console.log(`\n${colorize("  Model:", "dim")} ${model}`);
+  if (getModelPrice(model) === undefined) {
+    console.log(
+      colorize(
+        `  No price known for "${model}" — add it to "prices" in .transl8rc.json to see costs.`,
+        "yellow",
+      ),
+    );
+  }
+
+  printSection("Per language");
+  console.log(
+    colorize("  Lang    Requests   Input tokens   Output tokens   Cost", "dim"),
+  );
+  for (const e of estimates) {
+    const skipped =
+      e.cachedKeys + e.copiedKeys > 0
+        ? colorize(
+            `  (${e.cachedKeys} from memory, ${e.copiedKeys} copied)`,
+            "dim",
+          )
+        : "";
+    console.log(
+      `  ${colorize(e.language.padEnd(6), "cyan")}  ${String(e.requests).padStart(8)}   ${String(e.inputTokens).padStart(12)}   ${String(e.outputTokens).padStart(13)}   ${formatCost(e.cost)}${skipped}`,
+    );
+  }
+
+  const sum = (field: "requests" | "inputTokens" | "outputTokens") =>
+    estimates.reduce((total, e) => total + e[field], 0);
+  const totalCost = estimates.some((e) => e.cost === null && e.requests > 0)
+    ? null
+    : estimates.reduce((total, e) => total + (e.cost ?? 0), 0);
+
+  printSection("Total");
+  console.log(`  Requests: ${colorize(String(sum("requests")), "cyan")}`);
+  console.log(
+    `  Tokens: ${colorize(String(sum("inputTokens")), "cyan")} input, ~${colorize(String(sum("outputTokens")), "cyan")} output`,
+  );
+  console.log(`  Projected cost: ${colorize(formatCost(totalCost), "bold")}`);
+
+  const { maxBudget } = getTranslatorConfig();
+  if (maxBudget !== undefined && totalCost !== null) {
+    const over = totalCost > maxBudget;
+    console.log(
+      `  Budget: ${colorize(formatCost(maxBudget), over ? "red" : "green")}${over ? colorize(" (exceeded — the run would abort)", "red") : ""}`,
+    );
+  }
+  console.log(
+    colorize(
+      "\n  Output tokens are estimated; validation re-prompts, retries and reasoning tokens are not included.",
+      "dim",
+    ),
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * Failed-key records — remember which keys failed in the last run for each
+ * language so `--retry-failed` can re-attempt only those
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { FailedKeyRecord, TranslationResult } from "./types.js";
+import { getStateDir } from "./utils.js";
+
+const FAILED_KEYS_FILE = "failed.json";
+
+/**
+ * Get the path to .transl8/failed.json
+ */
+function getFailedKeysPath(): string {
+  return path.join(getStateDir(), FAILED_KEYS_FILE);
+}
+
+/**
+ * Load all failed-key records. Returns an empty object if none exist.
+ */
+function loadFailedKeysFile(): Record<string, FailedKeyRecord> {
+  const filePath = getFailedKeysPath();
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as Record<
+      string,
+      FailedKeyRecord
+    >;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Get the keys (and their errors) that failed for a language and have not
+ * been translated since
+ */
+export function loadFailedKeys(language: string): Record<string, string> {
+  return loadFailedKeysFile()[language]?.keys || {};
+}
+
+/**
+ * Update the failed-key record for a language with the results of this run:
+ * keys it translated are dropped, keys that failed (again) are added, and
+ * keys it didn't attempt keep their earlier error. The record is removed
+ * once no keys are left.
+ */
+export function recordFailedKeys(
+  language: string,
+  results: TranslationResult[],
+): void {
+  const all = loadFailedKeysFile();
+  const keys = { ...all[language]?.keys };
+  let changed = false;
+  for (const result of results) {
+    if (result.status === "failed") {
+      keys[result.key] = result.error || "";
+      changed = true;
+    } else if (result.key in keys) {
+      delete keys[result.key];
+      changed = true;
+    }
+  }
+  if (!changed) return;
+
+  if (Object.keys(keys).length === 0) {
+    delete all[language];
+  } else {
+    all[language] = { updatedAt: new Date().toISOString(), keys };
+  }
+
+  const filePath = getFailedKeysPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(all, null, 2) + "\n", "utf-8");
+}
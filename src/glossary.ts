@@ -0,0 +1,257 @@
+/**
+ * Glossary matching — selects the protected terms a string mentions for its
+ * prompt, and checks that they come out as the kept term or its approved
+ * rendering in the translation, and never as a forbidden one
+ */
+
+import type { Glossary, GlossaryEntry, TranslationFile } from "./types.js";
+import {
+  buildGlossaryPromptSection,
+  escapeRegex,
+  flattenKeys,
+  getValueAtPath,
+} from "./utils.js";
+
+export interface GlossaryViolation {
+  key: string;
+  source: string;
+  translation: string;
+  term: string;
+  /** The rendering the glossary requires in this language */
+  expected: string;
+  /** The forbidden rendering the translation used, if that's the problem */
+  forbidden?: string;
+  message: string;
+}
+
+/** Where a source text mentions a glossary term or alias */
+export interface TermOccurrence {
+  index: number;
+  length: number;
+  /** The rendering the glossary requires for it in the language */
+  rendering: string;
+}
+
+/** One way a translation breaks a glossary entry */
+interface EntryProblem {
+  message: string;
+  forbidden?: string;
+}
+
+/** Scripts written without spaces, where a term can't have word boundaries */
+const UNSPACED_SCRIPT =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}]/u;
+
+/** Any letter, mark or digit: a term next to one is part of a longer word */
+const WORD_CHAR = "[\\p{L}\\p{M}\\p{N}]";
+
+/**
+ * Build a regex matching `text` as a word: not preceded (and, when `whole`,
+ * not followed) by a letter, unless that end of the term is in a script
+ * without spaces. Case-insensitive unless `caseSensitive`.
+ */
+function termRegex(
+  text: string,
+  caseSensitive: boolean,
+  whole: boolean,
+): RegExp {
+  const chars = [...text];
+  const before = UNSPACED_SCRIPT.test(chars[0]) ? "" : `(?<!${WORD_CHAR})`;
+  const after =
+    whole && !UNSPACED_SCRIPT.test(chars[chars.length - 1])
+      ? `(?!${WORD_CHAR})`
+      : "";
+  return new RegExp(
+    `${before}${escapeRegex(text)}${after}`,
+    caseSensitive ? "u" : "iu",
+  );
+}
+
+/** Source-side matchers (term and aliases) per entry */
+const termMatchers = new WeakMap<GlossaryEntry, RegExp[]>();
+
+/** Rendered prompt sections per glossary, keyed by language and entries */
+const sectionCache = new WeakMap<Glossary, Map<string, string>>();
+
+/**
+ * Check whether a source text mentions an entry: its term or one of its
+ * aliases as a whole word
+ */
+export function mentionsTerm(entry: GlossaryEntry, text: string): boolean {
+  let matchers = termMatchers.get(entry);
+  if (!matchers) {
+    matchers = [entry.term, ...(entry.aliases || [])].map((spelling) =>
+      termRegex(spelling, entry.caseSensitive === true, true),
+    );
+    termMatchers.set(entry, matchers);
+  }
+  return matchers.some((matcher) => matcher.test(text));
+}
+
+/**
+ * Find where a source text mentions glossary terms or aliases (as whole
+ * words), with the rendering each must have in a language. Overlapping
+ * mentions keep the one that starts first, then the longest.
+ */
+export function findTermOccurrences(
+  glossary: Glossary,
+  languageCode: string,
+  text: string,
+): TermOccurrence[] {
+  const found: TermOccurrence[] = [];
+  for (const entry of glossary.protectedTerms) {
+    if (!mentionsTerm(entry, text)) continue;
+    const rendering = getExpectedRendering(entry, languageCode);
+    for (const spelling of [entry.term, ...(entry.aliases || [])]) {
+      const matcher = termRegex(spelling, entry.caseSensitive === true, true);
+      const global = new RegExp(matcher.source, `${matcher.flags}g`);
+      for (const match of text.matchAll(global)) {
+        found.push({ index: match.index!, length: match[0].length, rendering });
+      }
+    }
+  }
+
+  found.sort((a, b) => a.index - b.index || b.length - a.length);
+  let end = 0;
+  return found.filter((occurrence) => {
+    if (occurrence.index < end) return false;
+    end = occurrence.index + occurrence.length;
+    return true;
+  });
+}
+
+/**
+ * Get the glossary prompt section for the source texts of one request (a
+ * string, or a description and its link texts): only the entries they
+ * mention. Returns an empty string when none apply.
+ */
+export function getGlossaryPromptSection(
+  glossary: Glossary,
+  languageCode: string,
+  texts: string[],
+): string {
+  const indices: number[] = [];
+  glossary.protectedTerms.forEach((entry, i) => {
+    if (texts.some((text) => mentionsTerm(entry, text))) indices.push(i);
+  });
+  if (indices.length === 0) return "";
+
+  let sections = sectionCache.get(glossary);
+  if (!sections) {
+    sections = new Map();
+    sectionCache.set(glossary, sections);
+  }
+  const id = `${languageCode}:${indices.join(",")}`;
+  let section = sections.get(id);
+  if (section === undefined) {
+    section = buildGlossaryPromptSection(
+      { protectedTerms: indices.map((i) => glossary.protectedTerms[i]) },
+      languageCode,
+    );
+    sections.set(id, section);
+  }
+  return section;
+}
+
+/**
+ * The rendering of a term the glossary requires in a language: its override,
+ * or the term itself
+ */
+export function getExpectedRendering(
+  entry: GlossaryEntry,
+  languageCode: string,
+): string {
+  return entry.translations[languageCode] || entry.term;
+}
+
+/**
+ * Check one translation against one entry whose term the source mentions:
+ * the required rendering must appear, and no forbidden rendering may.
+ * Forbidden renderings are matched case-insensitively, like the required
+ * one at the start of a longer word.
+ */
+function checkEntry(
+  entry: GlossaryEntry,
+  translated: string,
+  languageCode: string,
+): EntryProblem[] {
+  const problems: EntryProblem[] = [];
+
+  const expected = getExpectedRendering(entry, languageCode);
+  if (
+    !termRegex(expected, entry.caseSensitive === true, false).test(translated)
+  ) {
+    problems.push({
+      message:
+        expected === entry.term
+          ? `Glossary term "${entry.term}" must be kept as "${expected}" (${entry.description})`
+          : `Glossary term "${entry.term}" must be translated as "${expected}" (${entry.description})`,
+    });
+  }
+
+  for (const forbidden of entry.forbidden?.[languageCode] || []) {
+    if (termRegex(forbidden, false, false).test(translated)) {
+      problems.push({
+        message: `Glossary term "${entry.term}" must not be translated as "${forbidden}" (${entry.description})`,
+        forbidden,
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Check one translation against the glossary. For every term the source
+ * mentions (see mentionsTerm), its required rendering must appear in the
+ * translation; it may start a longer word (compounds, inflections). Its
+ * forbidden renderings for the language must not appear.
+ * Returns an empty array when the translation follows the glossary.
+ */
+export function validateGlossary(
+  glossary: Glossary,
+  source: string,
+  translated: string,
+  languageCode: string,
+): string[] {
+  return glossary.protectedTerms
+    .filter((entry) => mentionsTerm(entry, source))
+    .flatMap((entry) => checkEntry(entry, translated, languageCode))
+    .map((problem) => problem.message);
+}
+
+/**
+ * Audit an existing language file against the glossary
+ */
+export function findGlossaryViolations(
+  glossary: Glossary,
+  sourceFile: TranslationFile,
+  targetFile: TranslationFile,
+  languageCode: string,
+): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+
+  for (const key of flattenKeys(sourceFile)) {
+    const source = getValueAtPath(sourceFile, key);
+    const translation = getValueAtPath(targetFile, key);
+    if (typeof source !== "string" || typeof translation !== "string") {
+      continue;
+    }
+
+    for (const entry of glossary.protectedTerms) {
+      if (!mentionsTerm(entry, source)) continue;
+      for (const problem of checkEntry(entry, translation, languageCode)) {
+        violations.push({
+          key,
+          source,
+          translation,
+          term: entry.term,
+          expected: getExpectedRendering(entry, languageCode),
+          ...problem,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
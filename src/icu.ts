@@ -0,0 +1,378 @@
+/**
+ * ICU MessageFormat parser — turns message strings into an AST so
+ * placeholders, plurals and selects can be inspected reliably
+ */
+
+import type {
+  IcuNode,
+  IcuArgumentNode,
+  IcuPluralNode,
+  IcuSelectNode,
+} from "./types.js";
+
+/**
+ * Thrown when a message is not valid ICU MessageFormat
+ */
+export class IcuParseError extends Error {
+  /** Character offset in the message where parsing failed */
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(`${message} (at position ${offset})`);
+    this.name = "IcuParseError";
+    this.offset = offset;
+  }
+}
+
+/** An argument found anywhere in a message, including nested branches */
+export type IcuArgument = IcuArgumentNode | IcuPluralNode | IcuSelectNode;
+
+interface ParserState {
+  text: string;
+  pos: number;
+}
+
+const WHITESPACE = /\s/;
+
+function skipWhitespace(state: ParserState): void {
+  while (
+    state.pos < state.text.length &&
+    WHITESPACE.test(state.text[state.pos])
+  ) {
+    state.pos++;
+  }
+}
+
+/**
+ * Read an argument name, format keyword or selector: anything up to
+ * whitespace or ICU syntax characters
+ */
+function readIdentifier(state: ParserState): string {
+  const start = state.pos;
+  while (
+    state.pos < state.text.length &&
+    !/[\s{},#]/.test(state.text[state.pos])
+  ) {
+    state.pos++;
+  }
+  return state.text.slice(start, state.pos);
+}
+
+function expect(state: ParserState, ch: string): void {
+  if (state.text[state.pos] !== ch) {
+    const found =
+      state.pos < state.text.length
+        ? `"${state.text[state.pos]}"`
+        : "end of message";
+    throw new IcuParseError(`Expected "${ch}" but found ${found}`, state.pos);
+  }
+  state.pos++;
+}
+
+/**
+ * Read literal text up to the next argument (or the end of the current
+ * branch), applying ICU apostrophe quoting: `''` is a literal apostrophe and
+ * `'{...}'` quotes syntax characters. Any other apostrophe is plain text,
+ * so "don't" needs no escaping.
+ */
+function readLiteral(state: ParserState, inPlural: boolean): string {
+  const { text } = state;
+  let value = "";
+
+  while (state.pos < text.length) {
+    const ch = text[state.pos];
+
+    if (ch === "{" || ch === "}" || (inPlural && ch === "#")) {
+      break;
+    }
+
+    if (ch === "'") {
+      const next = text[state.pos + 1];
+      if (next === "'") {
+        value += "'";
+        state.pos += 2;
+        continue;
+      }
+      if (next === "{" || next === "}" || (inPlural && next === "#")) {
+        // Quoted section: runs to the next unpaired apostrophe
+        state.pos++;
+        while (state.pos < text.length) {
+          if (text[state.pos] === "'") {
+            if (text[state.pos + 1] === "'") {
+              value += "'";
+              state.pos += 2;
+              continue;
+            }
+            state.pos++;
+            break;
+          }
+          value += text[state.pos++];
+        }
+        continue;
+      }
+    }
+
+    value += ch;
+    state.pos++;
+  }
+
+  return value;
+}
+
+/**
+ * Parse the branches of a plural or select argument: `selector {message}`...
+ */
+function parseOptions(
+  state: ParserState,
+  inPlural: boolean,
+): Record<string, IcuNode[]> {
+  const options: Record<string, IcuNode[]> = {};
+
+  skipWhitespace(state);
+  while (state.pos < state.text.length && state.text[state.pos] !== "}") {
+    const selectorStart = state.pos;
+    const selector = readIdentifier(state);
+    if (!selector) {
+      throw new IcuParseError("Expected a selector", state.pos);
+    }
+    if (selector in options) {
+      throw new IcuParseError(
+        `Duplicate selector "${selector}"`,
+        selectorStart,
+      );
+    }
+    skipWhitespace(state);
+    expect(state, "{");
+    options[selector] = parseNodes(state, inPlural);
+    expect(state, "}");
+    skipWhitespace(state);
+  }
+
+  if (!("other" in options)) {
+    throw new IcuParseError('Missing required "other" selector', state.pos);
+  }
+  return options;
+}
+
+/**
+ * Parse a `{...}` argument; state.pos is on the opening brace
+ */
+function parseArgument(state: ParserState, inPlural: boolean): IcuNode {
+  const start = state.pos;
+  expect(state, "{");
+  skipWhitespace(state);
+
+  const name = readIdentifier(state);
+  if (!name) {
+    throw new IcuParseError("Expected an argument name", state.pos);
+  }
+  skipWhitespace(state);
+
+  if (state.text[state.pos] === "}") {
+    state.pos++;
+    return { type: "argument", name };
+  }
+  expect(state, ",");
+  skipWhitespace(state);
+
+  const format = readIdentifier(state);
+  if (!format) {
+    throw new IcuParseError(`Expected a format for "${name}"`, state.pos);
+  }
+  skipWhitespace(state);
+
+  if (format === "plural" || format === "selectordinal") {
+    expect(state, ",");
+    skipWhitespace(state);
+    let offset = 0;
+    const offsetMatch = /^offset:\s*(\d+)/.exec(state.text.slice(state.pos));
+    if (offsetMatch) {
+      offset = Number(offsetMatch[1]);
+      state.pos += offsetMatch[0].length;
+    }
+    const options = parseOptions(state, true);
+    expect(state, "}");
+    return {
+      type: "plural",
+      name,
+      ordinal: format === "selectordinal",
+      offset,
+      options,
+    };
+  }
+
+  if (format === "select") {
+    expect(state, ",");
+    const options = parseOptions(state, inPlural);
+    expect(state, "}");
+    return { type: "select", name, options };
+  }
+
+  // number, date, time, ... with an optional style
+  if (state.text[state.pos] === "}") {
+    state.pos++;
+    return { type: "argument", name, format };
+  }
+  expect(state, ",");
+  const styleStart = state.pos;
+  while (state.pos < state.text.length && state.text[state.pos] !== "}") {
+    if (state.text[state.pos] === "{") {
+      throw new IcuParseError(
+        `Unexpected "{" in style of "${name}"`,
+        state.pos,
+      );
+    }
+    state.pos++;
+  }
+  if (state.pos >= state.text.length) {
+    throw new IcuParseError(`Unclosed argument "${name}"`, start);
+  }
+  const style = state.text.slice(styleStart, state.pos).trim();
+  state.pos++;
+  return style
+    ? { type: "argument", name, format, style }
+    : { type: "argument", name, format };
+}
+
+/**
+ * Parse message content until the end of the text or a closing brace
+ */
+function parseNodes(state: ParserState, inPlural: boolean): IcuNode[] {
+  const nodes: IcuNode[] = [];
+
+  while (state.pos < state.text.length) {
+    const ch = state.text[state.pos];
+    if (ch === "}") break;
+
+    if (ch === "{") {
+      nodes.push(parseArgument(state, inPlural));
+    } else if (ch === "#" && inPlural) {
+      nodes.push({ type: "pound" });
+      state.pos++;
+    } else {
+      const value = readLiteral(state, inPlural);
+      const last = nodes[nodes.length - 1];
+      if (last?.type === "literal") {
+        last.value += value;
+      } else {
+        nodes.push({ type: "literal", value });
+      }
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Parse an ICU MessageFormat string into an AST.
+ * Throws IcuParseError on invalid syntax.
+ */
+export function parseMessage(message: string): IcuNode[] {
+  const state: ParserState = { text: message, pos: 0 };
+  const nodes = parseNodes(state, false);
+  if (state.pos < message.length) {
+    throw new IcuParseError('Unexpected "}"', state.pos);
+  }
+  return nodes;
+}
+
+/**
+ * Parse a message, returning null instead of throwing on invalid syntax
+ */
+export function tryParseMessage(message: string): IcuNode[] | null {
+  try {
+    return parseMessage(message);
+  } catch (error) {
+    if (error instanceof IcuParseError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Collect every argument in the AST, depth-first in source order, including
+ * arguments nested inside plural/select branches
+ */
+export function collectArguments(nodes: IcuNode[]): IcuArgument[] {
+  const args: IcuArgument[] = [];
+  const visit = (list: IcuNode[]) => {
+    for (const node of list) {
+      if (node.type === "argument") {
+        args.push(node);
+      } else if (node.type === "plural" || node.type === "select") {
+        args.push(node);
+        for (const branch of Object.values(node.options)) {
+          visit(branch);
+        }
+      }
+    }
+  };
+  visit(nodes);
+  return args;
+}
+
+/**
+ * The argument's kind as written in the message: "" for `{name}`, otherwise
+ * the format keyword (number, date, plural, selectordinal, select, ...)
+ */
+export function getArgumentKind(arg: IcuArgument): string {
+  switch (arg.type) {
+    case "plural":
+      return arg.ordinal ? "selectordinal" : "plural";
+    case "select":
+      return "select";
+    default:
+      return arg.format || "";
+  }
+}
+
+/**
+ * Render an argument the way it's written, eliding branch content:
+ * `{name}`, `{amount, number, currency}`, `{count, plural, one {...} other {...}}`
+ */
+export function describeArgument(arg: IcuArgument): string {
+  const kind = getArgumentKind(arg);
+  if (arg.type === "argument") {
+    if (!kind) return `{${arg.name}}`;
+    return arg.style
+      ? `{${arg.name}, ${kind}, ${arg.style}}`
+      : `{${arg.name}, ${kind}}`;
+  }
+  const offset =
+    arg.type === "plural" && arg.offset ? ` offset:${arg.offset}` : "";
+  const options = Object.keys(arg.options)
+    .map((selector) => `${selector} {...}`)
+    .join(" ");
+  return `{${arg.name}, ${kind},${offset} ${options}}`;
+}
+
+/**
+ * Check whether any node of the AST is an argument or `#`
+ */
+export function hasArguments(nodes: IcuNode[]): boolean {
+  return nodes.some((node) => node.type !== "literal");
+}
+
+/**
+ * Length of the longest text a message can render to, in characters
+ * (code points). Each plural/select contributes its longest branch;
+ * arguments and `#` count as written. Invalid ICU is measured as-is.
+ */
+export function measureMessageLength(message: string): number {
+  const nodes = tryParseMessage(message);
+  if (!nodes) return [...message].length;
+
+  const measure = (list: IcuNode[]): number =>
+    list.reduce((sum, node) => {
+      switch (node.type) {
+        case "literal":
+          return sum + [...node.value].length;
+        case "pound":
+          return sum + 1;
+        case "argument":
+          return sum + describeArgument(node).length;
+        default:
+          return sum + Math.max(0, ...Object.values(node.options).map(measure));
+      }
+    }, 0);
+  return measure(nodes);
+}
@@ -7,9 +7,10 @@
  */
 
 import { config } from "dotenv";
-import { Command } from "commander";
+import { Command, InvalidArgumentError } from "commander";
 import * as fs from "fs";
 import * as path from "path";
+import * as readline from "readline/promises";
 
 // Load .env from cwd
 config({ path: path.resolve(process.cwd(), ".env"), quiet: true });
@@ -24,9 +25,11 @@ import {
 import {
   translateMissingKeys,
   createFullTranslation,
-  initOpenAI,
+  initProvider,
   getLanguageInfo,
   setTranslatorConfig,
+  getTranslatorConfig,
+  buildKeyRequest,
 } from "./translator.js";
 
 import {
@@ -44,30 +47,242 @@ import {
   printSection,
   setMessagesDir,
   setGlossaryPath,
+  setContextPath,
+  getContextPath,
+  setStateDir,
   getMessagesDir,
   reorderToMatchSource,
   loadGlossary,
+  loadLocalGlossary,
+  getGlossaryTermOrigin,
   saveGlossary,
   getGlossaryPath,
+  removeKeyAtPath,
+  type GlossaryTermOrigin,
 } from "./utils.js";
 
 import {
   SUPPORTED_LANGUAGES,
   type TranslationFile,
+  type TranslationResult,
+  type TranslationStatus,
   type GlossaryEntry,
+  type UsageLedgerEntry,
 } from "./types.js";
 
 import {
   loadConfig,
   createDefaultConfig,
   createDefaultGlossary,
+  isApiMode,
+  isMockMode,
 } from "./config.js";
 
+import { loadFailedKeys, recordFailedKeys } from "./failures.js";
+
+import {
+  estimateTranslationCost,
+  printCostEstimate,
+  assertWithinBudget,
+} from "./estimate.js";
+
+import {
+  saveRunUsage,
+  printRunUsage,
+  loadUsageLedger,
+  sumUsage,
+  printUsageReport,
+} from "./usage.js";
+
+import { reviewTranslations, printReviewReport } from "./review.js";
+
+import {
+  resolveLanguageStyle,
+  hasFormalityRules,
+  findFormalityIssues,
+  type FormalityIssue,
+} from "./style.js";
+
+import {
+  getContextNotes,
+  setContextNote,
+  removeContextNote,
+} from "./notes.js";
+
+import { findGlossaryViolations, type GlossaryViolation } from "./glossary.js";
+
+import { suggestGlossaryTerms } from "./suggest.js";
+
+import {
+  resolveGlossaryFormat,
+  readGlossaryFile,
+  writeGlossaryFile,
+  mergeGlossary,
+  printGlossaryImportReport,
+} from "./termbase.js";
+
+import {
+  loadSourceHashes,
+  recordSourceHashes,
+  recordSourceBaseline,
+  removeSourceHashes,
+  getLockFilePath,
+} from "./lockfile.js";
+
+import {
+  getTranslationMemoryStats,
+  clearTranslationMemory,
+  exportTranslationMemory,
+} from "./memory.js";
+
 /** Display a file path relative to cwd */
 function relPath(filePath: string): string {
   return path.relative(process.cwd(), filePath);
 }
 
+/** Collect a repeatable option's values */
+function collect(val: string, acc: string[]): string[] {
+  acc.push(val);
+  return acc;
+}
+
+/**
+ * Parse an option value that must be a whole number above zero
+ */
+function parsePositiveInt(value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number <= 0) {
+    throw new InvalidArgumentError("Must be a positive whole number.");
+  }
+  return number;
+}
+
+/**
+ * Split a `<lang:value>` option value
+ */
+function parseLanguageValue(value: string, option: string): [string, string] {
+  const [lang, ...valueParts] = value.split(":");
+  const text = valueParts.join(":");
+  if (!lang || !text) {
+    throw new Error(`Invalid ${option} "${value}". Expected <lang:value>.`);
+  }
+  return [lang, text];
+}
+
+/**
+ * Find a term in the merged glossary (with extended glossaries), with the
+ * file it comes from
+ */
+function findGlossaryTerm(
+  term: string,
+): { entry: GlossaryEntry; origin?: GlossaryTermOrigin } | undefined {
+  const entry = loadGlossary().protectedTerms.find(
+    (e) => e.term.toLowerCase() === term.toLowerCase(),
+  );
+  return entry && { entry, origin: getGlossaryTermOrigin(entry) };
+}
+
+/**
+ * Add forbidden renderings (`<lang:value>`) to a glossary entry
+ */
+function addForbiddenRenderings(entry: GlossaryEntry, values: string[]): void {
+  for (const value of values) {
+    const [lang, text] = parseLanguageValue(value, "--forbid");
+    if (entry.translations[lang] === text) {
+      throw new Error(
+        `"${text}" is the approved ${lang} translation of "${entry.term}" and can't be forbidden.`,
+      );
+    }
+    entry.forbidden = entry.forbidden || {};
+    const list = (entry.forbidden[lang] = entry.forbidden[lang] || []);
+    if (!list.includes(text)) list.push(text);
+  }
+}
+
+/**
+ * Print failed and fallback translations after a run.
+ * Returns true when any key failed.
+ */
+function printFailureSummary(
+  language: string,
+  results: TranslationResult[],
+): boolean {
+  const failed = results.filter((r) => r.status === "failed");
+  const fallbacks = results.filter((r) => r.status === "fallback");
+
+  if (fallbacks.length > 0) {
+    printSection(`Fallback translations (${fallbacks.length})`);
+    for (const result of fallbacks) {
+      console.log(
+        `  ${colorize("⚠", "yellow")} ${result.key}: ${colorize(result.error || "", "dim")}`,
+      );
+    }
+  }
+
+  if (failed.length === 0) return false;
+
+  printSection(`Failed translations (${failed.length})`);
+  for (const result of failed.slice(0, 20)) {
+    console.log(
+      `  ${colorize("✗", "red")} ${result.key}: ${colorize(result.error || "", "dim")}`,
+    );
+  }
+  if (failed.length > 20) {
+    console.log(`  ... and ${failed.length - 20} more`);
+  }
+  console.log(
+    colorize(
+      `\n  Failed keys were not written. Run \`transl8 translate ${language} --retry-failed\` to retry only them.`,
+      "yellow",
+    ),
+  );
+  return true;
+}
+
+/**
+ * Send everything a run prints to stderr, keeping stdout for its `--json`
+ * result. Returns the function that prints that result.
+ */
+function useJsonOutput(): (value: unknown) => void {
+  const stdoutWrite = process.stdout.write.bind(process.stdout);
+  process.stdout.write = process.stderr.write.bind(
+    process.stderr,
+  ) as typeof process.stdout.write;
+  return (value) => {
+    stdoutWrite(JSON.stringify(value, null, 2) + "\n");
+  };
+}
+
+/**
+ * The `--json` result of a create, translate or sync run: how many keys
+ * ended in each status, the failed and fallback keys, and the run's usage
+ */
+function getRunSummary(
+  language: string,
+  targetFile: string,
+  results: TranslationResult[],
+  usage: UsageLedgerEntry[],
+) {
+  const statuses: Record<TranslationStatus, number> = {
+    ok: 0,
+    cached: 0,
+    skipped: 0,
+    fallback: 0,
+    failed: 0,
+  };
+  for (const result of results) statuses[result.status]++;
+
+  return {
+    language,
+    file: relPath(targetFile),
+    statuses,
+    problems: results
+      .filter((r) => r.status === "failed" || r.status === "fallback")
+      .map(({ key, status, error }) => ({ key, status, error })),
+    usage,
+  };
+}
+
 const program = new Command();
 
 program
@@ -78,11 +293,84 @@ program
     "-m, --messages <path>",
     "Path to messages directory (default: from config)",
   )
-  .option("--model <model>", "OpenAI model to use (default: from config)")
+  .option(
+    "--provider <name>",
+    "Translation provider to use (default: from config)",
+  )
+  .option("--model <model>", "Model to use (default: from config)")
+  .option(
+    "--base-url <url>",
+    "Base URL of an OpenAI-compatible server (default: from config)",
+  )
+  .option(
+    "--header <name:value>",
+    "Extra request header, repeatable (e.g. --header X-Team:i18n)",
+    (val: string, acc: Record<string, string>) => {
+      const [name, ...valueParts] = val.split(":");
+      if (!name || valueParts.length === 0) {
+        throw new InvalidArgumentError("Expected <name:value>.");
+      }
+      acc[name.trim()] = valueParts.join(":").trim();
+      return acc;
+    },
+    {} as Record<string, string>,
+  )
+  .option(
+    "--timeout <ms>",
+    "Request timeout in milliseconds (default: from config)",
+    parsePositiveInt,
+  )
+  .option(
+    "--api-mode <mode>",
+    'API to call: "responses" or "chat" (default: from config)',
+    (val: string) => {
+      if (!isApiMode(val)) {
+        throw new InvalidArgumentError('Must be "responses" or "chat".');
+      }
+      return val;
+    },
+  )
+  .option(
+    "--mock-mode <mode>",
+    'Output of the offline "mock" provider: echo, pseudo or fixtures',
+    (val: string) => {
+      if (!isMockMode(val)) {
+        throw new InvalidArgumentError(
+          'Must be "echo", "pseudo" or "fixtures".',
+        );
+      }
+      return val;
+    },
+  )
   .option(
     "--concurrency <number>",
     "Max concurrent API requests (default: from config)",
     parseInt,
+  )
+  .option(
+    "--batch-size <number>",
+    "Max keys per request, grouped by section (default: from config)",
+    parsePositiveInt,
+  )
+  .option(
+    "--max-retries <number>",
+    "Retries per failed request, 0 to disable (default: from config)",
+    (val: string) => parseInt(val, 10),
+  )
+  .option(
+    "--no-translation-memory",
+    "Don't reuse or record translations in the translation memory",
+  )
+  .option(
+    "--max-budget <usd>",
+    "Abort runs whose estimated cost exceeds this (default: from config)",
+    (val: string) => {
+      const budget = parseFloat(val);
+      if (!(budget > 0)) {
+        throw new InvalidArgumentError("Must be a positive number.");
+      }
+      return budget;
+    },
   );
 
 // Load config before commands run (except for init and list-languages)
@@ -95,13 +383,25 @@ program.hook("preAction", (thisCommand: Command) => {
 
   const opts = thisCommand.opts();
   const cfg = loadConfig({
+    provider: opts.provider,
     model: opts.model,
+    baseURL: opts.baseUrl,
+    headers: opts.header,
+    timeout: opts.timeout,
+    apiMode: opts.apiMode,
+    mockMode: opts.mockMode,
     concurrency: opts.concurrency,
+    batchSize: opts.batchSize,
+    maxRetries: opts.maxRetries,
     messagesDir: opts.messages,
+    translationMemory: opts.translationMemory,
+    maxBudget: opts.maxBudget,
   });
 
   setMessagesDir(cfg.messagesDir);
   setGlossaryPath(cfg.glossaryPath);
+  setContextPath(cfg.contextPath);
+  setStateDir(cfg.stateDir);
   setTranslatorConfig(cfg);
 });
 
@@ -208,7 +508,10 @@ program
     try {
       printHeader("Translation File Analysis");
 
-      const results = analyzeAllFiles("en.json");
+      const results = analyzeAllFiles(
+        "en.json",
+        getTranslatorConfig().lengthLimits,
+      );
 
       if (options.json) {
         console.log(generateJsonReport(results));
@@ -233,6 +536,14 @@ program
         (sum, r) => sum + r.report.summary.typeMismatchCount,
         0,
       );
+      const totalStale = results.reduce(
+        (sum, r) => sum + r.report.summary.staleCount,
+        0,
+      );
+      const totalOverLength = results.reduce(
+        (sum, r) => sum + r.report.summary.overLengthCount,
+        0,
+      );
 
       console.log(
         `  Total files analyzed: ${colorize(results.length.toString(), "cyan")}`,
@@ -246,6 +557,12 @@ program
       console.log(
         `  Total type mismatches: ${colorize(totalMismatches.toString(), totalMismatches > 0 ? "red" : "green")}`,
       );
+      console.log(
+        `  Total stale keys: ${colorize(totalStale.toString(), totalStale > 0 ? "yellow" : "green")}`,
+      );
+      console.log(
+        `  Total over length limit: ${colorize(totalOverLength.toString(), totalOverLength > 0 ? "yellow" : "green")}`,
+      );
     } catch (error) {
       console.error(
         colorize(
@@ -279,7 +596,12 @@ program
 
       const source = loadTranslationFile(sourceFile);
       const target = loadTranslationFile(targetFile);
-      const report = compareTranslations(source, target);
+      const report = compareTranslations(
+        source,
+        target,
+        loadSourceHashes(language),
+        getTranslatorConfig().lengthLimits,
+      );
 
       if (options.json) {
         console.log(
@@ -321,7 +643,10 @@ program
   .option("-f, --force", "Overwrite existing file")
   .option("-d, --dry-run", "Preview without creating files")
   .option("-v, --verbose", "Show detailed output")
+  .option("--estimate", "Show the projected token usage and cost, then exit")
+  .option("--json", "Print the result and token usage as JSON")
   .action(async (language, options) => {
+    const printJson = options.json ? useJsonOutput() : undefined;
     try {
       const langInfo = getLanguageInfo(language);
       if (!langInfo) {
@@ -366,8 +691,18 @@ program
         return;
       }
 
+      // Estimating builds every prompt, so skip it unless something uses it
+      if (options.estimate || getTranslatorConfig().maxBudget !== undefined) {
+        const estimate = estimateTranslationCost(language);
+        if (options.estimate) {
+          printCostEstimate([estimate]);
+          return;
+        }
+        assertWithinBudget([estimate]);
+      }
+
       try {
-        initOpenAI();
+        initProvider();
       } catch (error) {
         console.error(
           colorize(
@@ -375,27 +710,41 @@ program
             "red",
           ),
         );
-        console.error(
-          "\nTo create translations, please set your OpenAI API key:",
-        );
-        console.error("  export OPENAI_API_KEY=your-api-key");
+        if (getTranslatorConfig().provider === "openai") {
+          console.error(
+            "\nTo create translations, please set your OpenAI API key:",
+          );
+          console.error("  export OPENAI_API_KEY=your-api-key");
+        }
         process.exit(1);
       }
 
-      const translatedFile = await createFullTranslation(language, {
-        verbose: options.verbose,
-        dryRun: options.dryRun,
-      });
+      const { translatedFile, results } = await createFullTranslation(
+        language,
+        {
+          verbose: options.verbose,
+          dryRun: options.dryRun,
+        },
+      );
 
       const source = loadTranslationFile(path.join(messagesDir, "en.json"));
       saveTranslationFile(
         targetFile,
         reorderToMatchSource(source, translatedFile),
       );
+      recordFailedKeys(language, results);
+      recordSourceHashes(language, results);
 
       console.log(
         colorize(`\n✓ Created translation file: ${relPath(targetFile)}`, "green"),
       );
+      const usage = saveRunUsage("create");
+      printRunUsage(usage);
+      printJson?.(getRunSummary(language, targetFile, results, usage));
+
+      if (printFailureSummary(language, results)) {
+        process.exit(1);
+      }
     } catch (error) {
       console.error(
         colorize(
@@ -403,6 +752,14 @@ program
           "red",
         ),
       );
+      // Aborted runs spent tokens too: record them before exiting
+      const usage = saveRunUsage("create");
+      printRunUsage(usage);
+      printJson?.({
+        language,
+        error: error instanceof Error ? error.message : String(error),
+        usage,
+      });
       process.exit(1);
     }
   });
@@ -415,7 +772,18 @@ program
   .description("Translate missing keys for a language")
   .option("-d, --dry-run", "Preview without making changes")
   .option("-v, --verbose", "Show detailed output")
+  .option(
+    "--retry-failed",
+    "Only retry keys that failed in the last run for this language",
+  )
+  .option(
+    "--stale",
+    "Re-translate keys whose English value changed since they were translated",
+  )
+  .option("--estimate", "Show the projected token usage and cost, then exit")
+  .option("--json", "Print the result and token usage as JSON")
   .action(async (language, options) => {
+    const printJson = options.json ? useJsonOutput() : undefined;
     try {
       const langInfo = getLanguageInfo(language);
       if (!langInfo) {
@@ -439,25 +807,52 @@ program
         process.exit(1);
       }
 
-      printHeader(`Translating Missing Keys for ${langInfo.name}`);
+      printHeader(
+        options.stale
+          ? `Re-translating Stale Keys for ${langInfo.name}`
+          : `Translating Missing Keys for ${langInfo.name}`,
+      );
 
       const source = loadTranslationFile(sourceFile);
       const target = loadTranslationFile(targetFile);
-      const report = compareTranslations(source, target);
+      const report = compareTranslations(
+        source,
+        target,
+        loadSourceHashes(language),
+        getTranslatorConfig().lengthLimits,
+      );
 
-      if (report.missingInTarget.length === 0) {
+      let keysToTranslate = options.stale
+        ? report.staleInTarget
+        : report.missingInTarget;
+      if (options.retryFailed) {
+        const failedKeys = loadFailedKeys(language);
+        keysToTranslate = keysToTranslate.filter((key) => key in failedKeys);
+        console.log(
+          `\nRetrying ${colorize(keysToTranslate.length.toString(), "yellow")} of ${Object.keys(failedKeys).length} previously failed keys.`,
+        );
+      }
+
+      if (keysToTranslate.length === 0) {
         console.log(
           colorize(
-            "\n✓ No missing keys! File is in sync with English.",
+            options.retryFailed
+              ? "\n✓ No failed keys left to retry."
+              : options.stale
+                ? "\n✓ No stale keys! Translations match the current English."
+                : "\n✓ No missing keys! File is in sync with English.",
             "green",
           ),
         );
+        printJson?.(getRunSummary(language, targetFile, [], []));
         return;
       }
 
-      console.log(
-        `\nFound ${colorize(report.missingInTarget.length.toString(), "yellow")} missing keys.`,
-      );
+      if (!options.retryFailed) {
+        console.log(
+          `\nFound ${colorize(keysToTranslate.length.toString(), "yellow")} ${options.stale ? "stale" : "missing"} keys.`,
+        );
+      }
 
       if (options.dryRun) {
         console.log(
@@ -466,15 +861,24 @@ program
             "yellow",
           ),
         );
-        for (const key of report.missingInTarget) {
+        for (const key of keysToTranslate) {
           const englishValue = getValueAtPath(source, key);
           console.log(`  ${colorize(key, "cyan")}: "${englishValue}"`);
         }
         return;
       }
 
+      if (options.estimate || getTranslatorConfig().maxBudget !== undefined) {
+        const estimate = estimateTranslationCost(language, keysToTranslate);
+        if (options.estimate) {
+          printCostEstimate([estimate]);
+          return;
+        }
+        assertWithinBudget([estimate]);
+      }
+
       try {
-        initOpenAI();
+        initProvider();
       } catch (error) {
         console.error(
           colorize(
@@ -485,18 +889,15 @@ program
         process.exit(1);
       }
 
-      const results = await translateMissingKeys(
-        report.missingInTarget,
-        language,
-        {
-          verbose: options.verbose,
-          dryRun: options.dryRun,
-        },
-      );
+      const results = await translateMissingKeys(keysToTranslate, language, {
+        verbose: options.verbose,
+        dryRun: options.dryRun,
+      });
+      const written = results.filter((r) => r.status !== "failed");
 
       // Apply translations to target file
       const updatedTarget = deepClone(target);
-      for (const result of results) {
+      for (const result of written) {
         setValueAtPath(
           updatedTarget,
           result.key,
@@ -509,13 +910,22 @@ program
         targetFile,
         reorderToMatchSource(source, updatedTarget),
       );
+      recordFailedKeys(language, results);
+      recordSourceHashes(language, results);
 
       console.log(
         colorize(
-          `\n✓ Updated ${results.length} translations in ${relPath(targetFile)}`,
+          `\n✓ Updated ${written.length} translations in ${relPath(targetFile)}`,
           "green",
         ),
       );
+      const usage = saveRunUsage("translate");
+      printRunUsage(usage);
+      printJson?.(getRunSummary(language, targetFile, results, usage));
+
+      if (printFailureSummary(language, results)) {
+        process.exit(1);
+      }
     } catch (error) {
       console.error(
         colorize(
@@ -523,6 +933,14 @@ program
           "red",
         ),
       );
+      // Aborted runs spent tokens too: record them before exiting
+      const usage = saveRunUsage("translate");
+      printRunUsage(usage);
+      printJson?.({
+        language,
+        error: error instanceof Error ? error.message : String(error),
+        usage,
+      });
       process.exit(1);
     }
   });
@@ -536,7 +954,9 @@ program
   .option("-t, --translate", "Use LLM to translate missing keys")
   .option("-d, --dry-run", "Preview without making changes")
   .option("-v, --verbose", "Show detailed output")
+  .option("--json", "Print the result and token usage as JSON")
   .action(async (language, options) => {
+    const printJson = options.json ? useJsonOutput() : undefined;
     try {
       const langInfo = getLanguageInfo(language);
       if (!langInfo) {
@@ -577,6 +997,7 @@ program
 
       if (report.missingInTarget.length === 0) {
         console.log(colorize("\n✓ File is already in sync!", "green"));
+        printJson?.(getRunSummary(language, targetFile, [], []));
         return;
       }
 
@@ -603,6 +1024,11 @@ program
             "dim",
           ),
         );
+        printJson?.({
+          language,
+          file: relPath(targetFile),
+          missing: report.missingInTarget,
+        });
         return;
       }
 
@@ -627,8 +1053,14 @@ program
         return;
       }
 
+      if (getTranslatorConfig().maxBudget !== undefined) {
+        assertWithinBudget([
+          estimateTranslationCost(language, report.missingInTarget),
+        ]);
+      }
+
       try {
-        initOpenAI();
+        initProvider();
       } catch (error) {
         console.error(
           colorize(
@@ -647,8 +1079,9 @@ program
           dryRun: options.dryRun,
         },
       );
+      const written = results.filter((r) => r.status !== "failed");
 
-      for (const result of results) {
+      for (const result of written) {
         setValueAtPath(
           updatedTarget,
           result.key,
@@ -657,13 +1090,22 @@ program
         );
       }
 
-      console.log(colorize(`\n✓ Translated ${results.length} keys`, "green"));
+      console.log(colorize(`\n✓ Translated ${written.length} keys`, "green"));
 
       saveTranslationFile(
         targetFile,
         reorderToMatchSource(source, updatedTarget),
       );
+      recordFailedKeys(language, results);
+      recordSourceHashes(language, results);
       console.log(colorize(`\nSaved: ${relPath(targetFile)}`, "green"));
+      const usage = saveRunUsage("sync");
+      printRunUsage(usage);
+      printJson?.(getRunSummary(language, targetFile, results, usage));
+
+      if (printFailureSummary(language, results)) {
+        process.exit(1);
+      }
     } catch (error) {
       console.error(
         colorize(
@@ -671,33 +1113,84 @@ program
           "red",
         ),
       );
+      // Aborted runs spent tokens too: record them before exiting
+      const usage = saveRunUsage("sync");
+      printRunUsage(usage);
+      printJson?.({
+        language,
+        error: error instanceof Error ? error.message : String(error),
+        usage,
+      });
       process.exit(1);
     }
   });
 
 // ============================================================================
-// prune command
+// estimate command
 // ============================================================================
 program
-  .command("prune <language>")
+  .command("estimate <languages...>")
   .description(
-    "Remove extra keys from a language file that don't exist in English",
+    "Estimate the tokens and cost of translating languages (missing keys, or all keys for new files)",
   )
-  .option("-d, --dry-run", "Preview without making changes")
-  .action((language, options) => {
+  .option("--json", "Output as JSON")
+  .action((languages: string[], options) => {
     try {
-      const langInfo = getLanguageInfo(language);
-      if (!langInfo) {
+      const messagesDir = getMessagesDir();
+      const source = loadTranslationFile(path.join(messagesDir, "en.json"));
+
+      const estimates = languages.map((language) => {
+        if (!getLanguageInfo(language)) {
+          throw new Error(`Unsupported language code: ${language}`);
+        }
+        const targetFile = path.join(messagesDir, `${language}.json`);
+        const keys = fs.existsSync(targetFile)
+          ? compareTranslations(source, loadTranslationFile(targetFile))
+              .missingInTarget
+          : undefined;
+        return estimateTranslationCost(language, keys);
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(estimates, null, 2));
+        return;
+      }
+      printCostEstimate(estimates);
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// review command
+// ============================================================================
+program
+  .command("review <language>")
+  .description(
+    "Back-translate a language into English and report translations whose meaning may have drifted",
+  )
+  .option(
+    "-k, --keys <patterns>",
+    'Only review keys matching these comma-separated patterns (e.g. "settings.*,nav.home")',
+  )
+  .option("--json", "Output as JSON")
+  .option("-v, --verbose", "Show detailed output")
+  .action(async (language, options) => {
+    try {
+      if (!getLanguageInfo(language)) {
         console.error(
           colorize(`Error: Unsupported language code: ${language}`, "red"),
         );
         process.exit(1);
       }
 
-      const messagesDir = getMessagesDir();
-      const targetFile = path.join(messagesDir, `${language}.json`);
-      const sourceFile = path.join(messagesDir, "en.json");
-
+      const targetFile = path.join(getMessagesDir(), `${language}.json`);
       if (!fs.existsSync(targetFile)) {
         console.error(
           colorize(`Error: Translation file not found: ${relPath(targetFile)}`, "red"),
@@ -705,36 +1198,132 @@ program
         process.exit(1);
       }
 
-      printHeader(`Pruning Extra Keys from ${langInfo.name}`);
-
-      const source = loadTranslationFile(sourceFile);
-      const target = loadTranslationFile(targetFile);
-      const report = compareTranslations(source, target);
-
-      if (report.extraInTarget.length === 0) {
-        console.log(
-          colorize("\n✓ No extra keys to remove! File is clean.", "green"),
+      try {
+        initProvider();
+      } catch (error) {
+        console.error(
+          colorize(
+            `\nError: ${error instanceof Error ? error.message : error}`,
+            "red",
+          ),
         );
-        return;
+        process.exit(1);
       }
 
-      console.log(
-        `\nFound ${colorize(report.extraInTarget.length.toString(), "yellow")} extra keys to remove:`,
-      );
+      const keyPatterns = options.keys
+        ? (options.keys as string)
+            .split(",")
+            .map((p) => p.trim())
+            .filter(Boolean)
+        : undefined;
 
-      // Group by section for display
-      const grouped: Record<string, string[]> = {};
-      for (const key of report.extraInTarget) {
-        const section = key.split(".")[0];
-        if (!grouped[section]) grouped[section] = [];
-        grouped[section].push(key);
+      const report = await reviewTranslations(language, {
+        keyPatterns,
+        verbose: options.verbose,
+        onProgress: options.json
+          ? undefined
+          : (completed, total) => {
+              process.stdout.write(`\r  Reviewing: ${completed}/${total}`);
+            },
+      });
+      const usage = saveRunUsage("review");
+
+      if (options.json) {
+        console.log(JSON.stringify({ ...report, usage }, null, 2));
+        return;
       }
 
-      for (const [section, keys] of Object.entries(grouped)) {
-        console.log(colorize(`\n  [${section}]`, "magenta"));
-        for (const key of keys) {
-          const value = getValueAtPath(target, key);
-          const preview =
+      console.log();
+      printReviewReport(report);
+      printRunUsage(usage);
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      // Aborted runs spent tokens too: record them before exiting
+      const usage = saveRunUsage("review");
+      if (options.json) {
+        console.log(
+          JSON.stringify(
+            {
+              language,
+              error: error instanceof Error ? error.message : String(error),
+              usage,
+            },
+            null,
+            2,
+          ),
+        );
+      } else {
+        printRunUsage(usage);
+      }
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// prune command
+// ============================================================================
+program
+  .command("prune <language>")
+  .description(
+    "Remove extra keys from a language file that don't exist in English",
+  )
+  .option("-d, --dry-run", "Preview without making changes")
+  .action((language, options) => {
+    try {
+      const langInfo = getLanguageInfo(language);
+      if (!langInfo) {
+        console.error(
+          colorize(`Error: Unsupported language code: ${language}`, "red"),
+        );
+        process.exit(1);
+      }
+
+      const messagesDir = getMessagesDir();
+      const targetFile = path.join(messagesDir, `${language}.json`);
+      const sourceFile = path.join(messagesDir, "en.json");
+
+      if (!fs.existsSync(targetFile)) {
+        console.error(
+          colorize(`Error: Translation file not found: ${relPath(targetFile)}`, "red"),
+        );
+        process.exit(1);
+      }
+
+      printHeader(`Pruning Extra Keys from ${langInfo.name}`);
+
+      const source = loadTranslationFile(sourceFile);
+      const target = loadTranslationFile(targetFile);
+      const report = compareTranslations(source, target);
+
+      if (report.extraInTarget.length === 0) {
+        console.log(
+          colorize("\n✓ No extra keys to remove! File is clean.", "green"),
+        );
+        return;
+      }
+
+      console.log(
+        `\nFound ${colorize(report.extraInTarget.length.toString(), "yellow")} extra keys to remove:`,
+      );
+
+      // Group by section for display
+      const grouped: Record<string, string[]> = {};
+      for (const key of report.extraInTarget) {
+        const section = key.split(".")[0];
+        if (!grouped[section]) grouped[section] = [];
+        grouped[section].push(key);
+      }
+
+      for (const [section, keys] of Object.entries(grouped)) {
+        console.log(colorize(`\n  [${section}]`, "magenta"));
+        for (const key of keys) {
+          const value = getValueAtPath(target, key);
+          const preview =
             typeof value === "string"
               ? value.length > 40
                 ? value.slice(0, 40) + "..."
@@ -762,6 +1351,7 @@ program
         targetFile,
         reorderToMatchSource(source, prunedTarget),
       );
+      removeSourceHashes(language, report.extraInTarget);
       console.log(
         colorize(
           `\n✓ Removed ${report.extraInTarget.length} extra keys from ${relPath(targetFile)}`,
@@ -779,24 +1369,6 @@ program
     }
   });
 
-/**
- * Remove a key at a given path from an object
- */
-function removeKeyAtPath(obj: TranslationFile, keyPath: string): void {
-  const parts = keyPath.split(".");
-  let current = obj;
-
-  for (let i = 0; i < parts.length - 1; i++) {
-    const part = parts[i];
-    if (!(part in current) || typeof current[part] !== "object") {
-      return; // Path doesn't exist
-    }
-    current = current[part] as TranslationFile;
-  }
-
-  delete current[parts[parts.length - 1]];
-}
-
 /**
  * Recursively remove empty objects from a translation file
  */
@@ -1045,7 +1617,10 @@ program
   .description("Export discrepancy report as JSON")
   .action((outputFile) => {
     try {
-      const results = analyzeAllFiles("en.json");
+      const results = analyzeAllFiles(
+        "en.json",
+        getTranslatorConfig().lengthLimits,
+      );
       const report = generateJsonReport(results);
 
       if (!outputFile) {
@@ -1066,6 +1641,169 @@ program
     }
   });
 
+// ============================================================================
+// lint command — style checks on existing translations
+// ============================================================================
+program
+  .command("lint [languages...]")
+  .description(
+    "Check translations against the configured style (e.g. formal vs informal address)",
+  )
+  .option("--json", "Output as JSON")
+  .action((languages: string[], options) => {
+    try {
+      const { styles } = getTranslatorConfig();
+      const targets =
+        languages.length > 0
+          ? languages
+          : listTranslationFiles()
+              .map(getLanguageCode)
+              .filter((code) => code !== "en");
+
+      const results: {
+        language: string;
+        formality?: string;
+        skipped?: string;
+        issues: FormalityIssue[];
+      }[] = [];
+
+      for (const language of targets) {
+        const targetFile = path.join(getMessagesDir(), `${language}.json`);
+        if (!fs.existsSync(targetFile)) {
+          throw new Error(`Translation file not found: ${relPath(targetFile)}`);
+        }
+
+        const { formality } = resolveLanguageStyle(styles, language);
+        if (!formality) {
+          results.push({
+            language,
+            skipped: "no formality configured",
+            issues: [],
+          });
+        } else if (!hasFormalityRules(language)) {
+          results.push({
+            language,
+            formality,
+            skipped: "no formality heuristics for this language",
+            issues: [],
+          });
+        } else {
+          results.push({
+            language,
+            formality,
+            issues: findFormalityIssues(
+              loadTranslationFile(targetFile),
+              language,
+              formality,
+            ),
+          });
+        }
+      }
+
+      const issueCount = results.reduce((n, r) => n + r.issues.length, 0);
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+      } else {
+        printHeader("Style Lint");
+        for (const result of results) {
+          const name =
+            getLanguageInfo(result.language)?.name || result.language;
+          if (result.skipped) {
+            console.log(
+              `\n  ${colorize(result.language.padEnd(6), "cyan")} ${name}: ${colorize(`skipped (${result.skipped})`, "dim")}`,
+            );
+            continue;
+          }
+          if (result.issues.length === 0) {
+            console.log(
+              `\n  ${colorize(result.language.padEnd(6), "cyan")} ${name} (${result.formality}): ${colorize("✓ no issues", "green")}`,
+            );
+            continue;
+          }
+          printSection(
+            `${name} (${result.formality}) — ${result.issues.length} issues`,
+          );
+          for (const issue of result.issues) {
+            console.log(
+              `  ${colorize("✗", "red")} ${colorize(issue.key, "cyan")}: "${issue.value}"`,
+            );
+            console.log(colorize(`    ${issue.message}`, "dim"));
+          }
+        }
+        console.log(
+          issueCount > 0
+            ? "\n" + colorize(`⚠ ${issueCount} style issues found`, "red")
+            : "\n" + colorize("✓ No style issues found", "green"),
+        );
+      }
+
+      if (issueCount > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// lock command — baseline for stale detection
+// ============================================================================
+program
+  .command("lock [languages...]")
+  .description(
+    "Mark existing translations as up to date with the current English values (baseline for stale detection)",
+  )
+  .action((languages: string[]) => {
+    try {
+      const messagesDir = getMessagesDir();
+      const source = loadTranslationFile(path.join(messagesDir, "en.json"));
+      const targets =
+        languages.length > 0
+          ? languages
+          : listTranslationFiles()
+              .map(getLanguageCode)
+              .filter((code) => code !== "en");
+
+      for (const language of targets) {
+        const targetFile = path.join(messagesDir, `${language}.json`);
+        if (!fs.existsSync(targetFile)) {
+          console.error(
+            colorize(
+              `Error: Translation file not found: ${relPath(targetFile)}`,
+              "red",
+            ),
+          );
+          process.exit(1);
+        }
+        const count = recordSourceBaseline(
+          language,
+          source,
+          loadTranslationFile(targetFile),
+        );
+        console.log(`  ${colorize(language, "cyan")}: ${count} keys locked`);
+      }
+
+      console.log(
+        colorize(`\n✓ Updated ${relPath(getLockFilePath())}`, "green"),
+      );
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // glossary command — manage protected terms that must not be translated
 // ============================================================================
@@ -1091,7 +1829,15 @@ glossaryCmd
         return;
       }
 
-      console.log(`\n${colorize("  File:", "dim")} ${getGlossaryPath()}\n`);
+      const glossaryPath = getGlossaryPath();
+      const { extends: parents } = loadLocalGlossary();
+      console.log(`\n${colorize("  File:", "dim")} ${glossaryPath}`);
+      if (parents) {
+        console.log(
+          `${colorize("  Extends:", "dim")} ${[parents].flat().join(", ")}`,
+        );
+      }
+      console.log();
       console.log(colorize("  Term                    Description", "dim"));
       console.log(colorize("  " + "─".repeat(60), "dim"));
 
@@ -1100,8 +1846,25 @@ glossaryCmd
         const overrides = Object.keys(entry.translations);
         const overrideNote =
           overrides.length > 0 ? ` [overrides: ${overrides.join(", ")}]` : "";
+        const aliasNote = entry.aliases?.length
+          ? ` [aliases: ${entry.aliases.join(", ")}]`
+          : "";
+        const forbidden = Object.entries(entry.forbidden || {}).filter(
+          ([, values]) => values.length > 0,
+        );
+        const forbiddenNote =
+          forbidden.length > 0
+            ? ` [forbidden: ${forbidden.map(([lang, values]) => `${lang}: ${values.join(", ")}`).join("; ")}]`
+            : "";
+        const origin = getGlossaryTermOrigin(entry);
+        let originNote = "";
+        if (origin && origin.file !== glossaryPath) {
+          originNote = ` [from ${relPath(origin.file)}]`;
+        } else if (origin?.overrides.length) {
+          originNote = ` [replaces ${origin.overrides.map(relPath).join(", ")}]`;
+        }
         console.log(
-          `  ${colorize(term, "cyan")} ${entry.description}${colorize(overrideNote, "dim")}`,
+          `  ${colorize(term, "cyan")} ${entry.description}${colorize(overrideNote + aliasNote + forbiddenNote + originNote, "dim")}`,
         );
       }
 
@@ -1125,20 +1888,29 @@ glossaryCmd
   .option(
     "--translation <lang:value>",
     "Override translation for a specific language (e.g. --translation de:Momente)",
-    (val: string, acc: string[]) => {
-      acc.push(val);
-      return acc;
-    },
+    collect,
+    [] as string[],
+  )
+  .option(
+    "--alias <text>",
+    "Another spelling or inflection that counts as the term (repeatable)",
+    collect,
+    [] as string[],
+  )
+  .option(
+    "--forbid <lang:value>",
+    "A rendering that must never be used in a language (e.g. --forbid de:Arbeitsbereich)",
+    collect,
     [] as string[],
   )
   .action(
     (
       term: string,
       description: string | undefined,
-      opts: { translation: string[] },
+      opts: { translation: string[]; alias: string[]; forbid: string[] },
     ) => {
       try {
-        const glossary = loadGlossary();
+        const glossary = loadLocalGlossary();
 
         // Check if it already exists
         const existing = glossary.protectedTerms.find(
@@ -1166,12 +1938,22 @@ glossaryCmd
             description ||
             `Protected term. Must remain "${term}" in all languages.`,
           caseSensitive: true,
+          ...(opts.alias.length > 0 && { aliases: opts.alias }),
           translations,
         };
+        addForbiddenRenderings(entry, opts.forbid);
 
+        const inherited = findGlossaryTerm(term)?.origin?.file;
         glossary.protectedTerms.push(entry);
         saveGlossary(glossary);
-        console.log(colorize(`✓ Added "${term}" to the glossary.`, "green"));
+        console.log(
+          colorize(
+            inherited
+              ? `✓ Added "${term}" to the glossary, replacing the term from ${relPath(inherited)}.`
+              : `✓ Added "${term}" to the glossary.`,
+            "green",
+          ),
+        );
       } catch (error) {
         console.error(
           colorize(
@@ -1189,13 +1971,19 @@ glossaryCmd
   .description("Remove a term from the glossary")
   .action((term: string) => {
     try {
-      const glossary = loadGlossary();
+      const glossary = loadLocalGlossary();
+      const found = findGlossaryTerm(term);
       const idx = glossary.protectedTerms.findIndex(
         (e) => e.term.toLowerCase() === term.toLowerCase(),
       );
       if (idx === -1) {
         console.log(
-          colorize(`Term "${term}" not found in the glossary.`, "yellow"),
+          colorize(
+            found?.origin
+              ? `Term "${term}" is inherited from ${relPath(found.origin.file)}; remove it there.`
+              : `Term "${term}" not found in the glossary.`,
+            "yellow",
+          ),
         );
         return;
       }
@@ -1203,6 +1991,15 @@ glossaryCmd
       glossary.protectedTerms.splice(idx, 1);
       saveGlossary(glossary);
       console.log(colorize(`✓ Removed "${term}" from the glossary.`, "green"));
+      const restored = found?.origin?.overrides[0];
+      if (restored) {
+        console.log(
+          colorize(
+            `  The term from ${relPath(restored)} applies again.`,
+            "dim",
+          ),
+        );
+      }
     } catch (error) {
       console.error(
         colorize(
@@ -1214,6 +2011,764 @@ glossaryCmd
     }
   });
 
+glossaryCmd
+  .command("update <term>")
+  .description(
+    "Change a glossary term's description, overrides or forbidden renderings",
+  )
+  .option("--description <text>", "Replace the description")
+  .option(
+    "--translation <lang:value>",
+    "Set the override for a language (repeatable)",
+    collect,
+    [] as string[],
+  )
+  .option(
+    "--remove-translation <lang>",
+    "Remove the override for a language, keeping the term as is (repeatable)",
+    collect,
+    [] as string[],
+  )
+  .option("--case-sensitive", "Match the term's case exactly")
+  .option("--no-case-sensitive", "Match the term in any case")
+  .option(
+    "--forbid <lang:value>",
+    "Never use this rendering in a language (repeatable)",
+    collect,
+    [] as string[],
+  )
+  .option(
+    "--allow <lang:value>",
+    "Remove a forbidden rendering (repeatable)",
+    collect,
+    [] as string[],
+  )
+  .action(
+    (
+      term: string,
+      opts: {
+        description?: string;
+        translation: string[];
+        removeTranslation: string[];
+        caseSensitive?: boolean;
+        forbid: string[];
+        allow: string[];
+      },
+    ) => {
+      try {
+        const glossary = loadLocalGlossary();
+        let entry = glossary.protectedTerms.find(
+          (e) => e.term.toLowerCase() === term.toLowerCase(),
+        );
+        // An inherited term is copied into this glossary, which then
+        // overrides it
+        const inherited = entry ? undefined : findGlossaryTerm(term);
+        if (inherited) {
+          entry = deepClone(inherited.entry);
+          glossary.protectedTerms.push(entry);
+        }
+        if (!entry) {
+          throw new Error(`Term "${term}" not found in the glossary.`);
+        }
+        const before = JSON.stringify(entry);
+
+        if (opts.description !== undefined) {
+          entry.description = opts.description;
+        }
+        if (opts.caseSensitive !== undefined) {
+          entry.caseSensitive = opts.caseSensitive;
+        }
+        for (const lang of opts.removeTranslation) {
+          delete entry.translations[lang];
+        }
+        for (const value of opts.translation) {
+          const [lang, text] = parseLanguageValue(value, "--translation");
+          entry.translations[lang] = text;
+          // An approved rendering can't stay forbidden
+          const forbidden = entry.forbidden?.[lang];
+          if (forbidden?.includes(text)) {
+            entry.forbidden![lang] = forbidden.filter((f) => f !== text);
+          }
+        }
+        for (const value of opts.allow) {
+          const [lang, text] = parseLanguageValue(value, "--allow");
+          const forbidden = entry.forbidden?.[lang];
+          if (forbidden) {
+            entry.forbidden![lang] = forbidden.filter((f) => f !== text);
+          }
+        }
+        addForbiddenRenderings(entry, opts.forbid);
+
+        // Drop forbidden lists emptied by --allow or --translation
+        for (const [lang, values] of Object.entries(entry.forbidden || {})) {
+          if (values.length === 0) delete entry.forbidden![lang];
+        }
+        if (entry.forbidden && Object.keys(entry.forbidden).length === 0) {
+          delete entry.forbidden;
+        }
+
+        if (JSON.stringify(entry) === before) {
+          console.log(colorize(`No changes to "${entry.term}".`, "yellow"));
+          return;
+        }
+        saveGlossary(glossary);
+        console.log(
+          colorize(
+            inherited?.origin
+              ? `✓ Updated "${entry.term}", replacing the term from ${relPath(inherited.origin.file)}.`
+              : `✓ Updated "${entry.term}".`,
+            "green",
+          ),
+        );
+      } catch (error) {
+        console.error(
+          colorize(
+            `Error: ${error instanceof Error ? error.message : error}`,
+            "red",
+          ),
+        );
+        process.exit(1);
+      }
+    },
+  );
+
+glossaryCmd
+  .command("check [language]")
+  .description(
+    "Check that existing translations keep protected terms or use their approved renderings",
+  )
+  .option("--json", "Output as JSON")
+  .action((language: string | undefined, options) => {
+    try {
+      const { sourceLanguage } = getTranslatorConfig();
+      const glossary = loadGlossary();
+      const source = loadTranslationFile(
+        path.join(getMessagesDir(), `${sourceLanguage}.json`),
+      );
+      const targets = language
+        ? [language]
+        : listTranslationFiles()
+            .map(getLanguageCode)
+            .filter((code) => code !== sourceLanguage);
+
+      const results: { language: string; violations: GlossaryViolation[] }[] =
+        [];
+      for (const target of targets) {
+        const targetFile = path.join(getMessagesDir(), `${target}.json`);
+        if (!fs.existsSync(targetFile)) {
+          throw new Error(`Translation file not found: ${relPath(targetFile)}`);
+        }
+        results.push({
+          language: target,
+          violations: findGlossaryViolations(
+            glossary,
+            source,
+            loadTranslationFile(targetFile),
+            target,
+          ),
+        });
+      }
+
+      const violationCount = results.reduce(
+        (n, r) => n + r.violations.length,
+        0,
+      );
+
+      if (options.json) {
+        console.log(JSON.stringify(results, null, 2));
+      } else {
+        printHeader("Glossary Check");
+        for (const result of results) {
+          const name =
+            getLanguageInfo(result.language)?.name || result.language;
+          if (result.violations.length === 0) {
+            console.log(
+              `\n  ${colorize(result.language.padEnd(6), "cyan")} ${name}: ${colorize("✓ no violations", "green")}`,
+            );
+            continue;
+          }
+          printSection(`${name} — ${result.violations.length} violations`);
+          for (const violation of result.violations) {
+            console.log(
+              `  ${colorize("✗", "red")} ${colorize(violation.key, "cyan")}: "${violation.translation}"`,
+            );
+            console.log(colorize(`    ${violation.message}`, "dim"));
+          }
+        }
+        console.log(
+          violationCount > 0
+            ? "\n" +
+                colorize(`⚠ ${violationCount} glossary violations found`, "red")
+            : "\n" + colorize("✓ No glossary violations found", "green"),
+        );
+      }
+
+      if (violationCount > 0) {
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
+glossaryCmd
+  .command("import <file>")
+  .description("Import terms from a CSV or TBX file into the glossary")
+  .option("--format <format>", "csv or tbx (default: from the file extension)")
+  .option(
+    "--mode <mode>",
+    "merge (keep terms missing from the file) or replace",
+    "merge",
+  )
+  .option(
+    "--keep-existing",
+    "Keep current descriptions and overrides when they differ from the file",
+  )
+  .option("--dry-run", "Report what would change without writing")
+  .action(
+    (
+      file: string,
+      opts: {
+        format?: string;
+        mode: string;
+        keepExisting?: boolean;
+        dryRun?: boolean;
+      },
+    ) => {
+      try {
+        if (opts.mode !== "merge" && opts.mode !== "replace") {
+          throw new Error(`Invalid mode "${opts.mode}". Use merge or replace.`);
+        }
+        const imported = readGlossaryFile(
+          file,
+          resolveGlossaryFormat(file, opts.format),
+          getTranslatorConfig().sourceLanguage,
+        );
+        const { glossary, report } = mergeGlossary(
+          loadLocalGlossary(),
+          imported,
+          { mode: opts.mode, keepExisting: opts.keepExisting },
+        );
+
+        printGlossaryImportReport(report, opts);
+        if (!opts.dryRun) {
+          saveGlossary(glossary);
+          console.log(
+            "\n" +
+              colorize(
+                `✓ Imported ${imported.length - report.duplicates.length} terms into ${relPath(getGlossaryPath())}`,
+                "green",
+              ),
+          );
+        }
+      } catch (error) {
+        console.error(
+          colorize(
+            `Error: ${error instanceof Error ? error.message : error}`,
+            "red",
+          ),
+        );
+        process.exit(1);
+      }
+    },
+  );
+
+glossaryCmd
+  .command("export <file>")
+  .description("Export the glossary as CSV or TBX")
+  .option("--format <format>", "csv or tbx (default: from the file extension)")
+  .action((file: string, opts: { format?: string }) => {
+    try {
+      const glossary = loadGlossary();
+      writeGlossaryFile(
+        file,
+        glossary.protectedTerms,
+        resolveGlossaryFormat(file, opts.format),
+        getTranslatorConfig().sourceLanguage,
+      );
+      console.log(
+        colorize(
+          `✓ Exported ${glossary.protectedTerms.length} terms to ${file}`,
+          "green",
+        ),
+      );
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
+glossaryCmd
+  .command("suggest")
+  .description(
+    "Suggest protected terms found in the source file (names, identifiers, words translations keep)",
+  )
+  .option(
+    "--min-count <n>",
+    "Only suggest terms that occur at least this often",
+    (val: string) => parseInt(val, 10),
+    2,
+  )
+  .option(
+    "--limit <n>",
+    "Show at most this many suggestions",
+    (val: string) => parseInt(val, 10),
+    30,
+  )
+  .option("--accept-all", "Add every suggestion without asking")
+  .option("--json", "Output suggestions as JSON")
+  .action(
+    async (opts: {
+      minCount: number;
+      limit: number;
+      acceptAll?: boolean;
+      json?: boolean;
+    }) => {
+      try {
+        const { sourceLanguage } = getTranslatorConfig();
+        const glossary = loadGlossary();
+        const source = loadTranslationFile(
+          path.join(getMessagesDir(), `${sourceLanguage}.json`),
+        );
+        const translations = new Map<string, TranslationFile>();
+        for (const file of listTranslationFiles()) {
+          const code = getLanguageCode(file);
+          if (code !== sourceLanguage) {
+            translations.set(code, loadTranslationFile(file));
+          }
+        }
+
+        const suggestions = suggestGlossaryTerms(
+          source,
+          translations,
+          glossary,
+          { minCount: opts.minCount },
+        ).slice(0, opts.limit);
+
+        if (opts.json) {
+          console.log(JSON.stringify(suggestions, null, 2));
+          return;
+        }
+
+        printHeader("Glossary Suggestions");
+        if (suggestions.length === 0) {
+          console.log(colorize("  No new term suggestions.", "dim"));
+          return;
+        }
+
+        const interactive = !opts.acceptAll && process.stdin.isTTY;
+        const rl = interactive
+          ? readline.createInterface({
+              input: process.stdin,
+              output: process.stdout,
+            })
+          : undefined;
+        const accepted: string[] = [];
+
+        try {
+          for (const suggestion of suggestions) {
+            const examples = suggestion.keys.slice(0, 3).join(", ");
+            const more =
+              suggestion.keys.length > 3
+                ? ` +${suggestion.keys.length - 3} more`
+                : "";
+            console.log(
+              `\n  ${colorize(suggestion.term, "cyan")} ${colorize(`×${suggestion.occurrences}`, "bold")} ${colorize(`(${suggestion.reasons.join(", ")})`, "dim")}`,
+            );
+            console.log(colorize(`    e.g. ${examples}${more}`, "dim"));
+
+            if (opts.acceptAll) {
+              accepted.push(suggestion.term);
+            } else if (rl) {
+              // Ctrl+D ends the session like "q"
+              const answer = (
+                await rl
+                  .question(`    Add "${suggestion.term}"? [y/N/q] `)
+                  .catch(() => "q")
+              )
+                .trim()
+                .toLowerCase();
+              if (answer === "q") break;
+              if (answer === "y" || answer === "yes") {
+                accepted.push(suggestion.term);
+              }
+            }
+          }
+        } finally {
+          rl?.close();
+        }
+
+        if (!opts.acceptAll && !rl) {
+          console.log(
+            `\n  Add them with: ${colorize("transl8 glossary suggest --accept-all", "cyan")} or ${colorize("transl8 glossary add <term>", "cyan")}`,
+          );
+          return;
+        }
+        if (accepted.length === 0) {
+          console.log("\n" + colorize("No terms added.", "dim"));
+          return;
+        }
+
+        const local = loadLocalGlossary();
+        for (const term of accepted) {
+          local.protectedTerms.push({
+            term,
+            description: `Protected term. Must remain "${term}" in all languages.`,
+            caseSensitive: true,
+            translations: {},
+          });
+        }
+        saveGlossary(local);
+        console.log(
+          "\n" +
+            colorize(
+              `✓ Added ${accepted.length} terms to the glossary.`,
+              "green",
+            ),
+        );
+      } catch (error) {
+        console.error(
+          colorize(
+            `Error: ${error instanceof Error ? error.message : error}`,
+            "red",
+          ),
+        );
+        process.exit(1);
+      }
+    },
+  );
+
+// ============================================================================
+// context command — translator notes that explain how a key is used
+// ============================================================================
+const contextCmd = program
+  .command("context")
+  .description(
+    "Manage translator notes (where and how a key is used, sent with its prompt)",
+  );
+
+contextCmd
+  .command("list")
+  .description("List all translator notes (context.json and inline)")
+  .action(() => {
+    try {
+      const source = loadTranslationFile(
+        path.join(getMessagesDir(), "en.json"),
+      );
+      const notes = getContextNotes(source);
+      const keys = Object.keys(notes).sort();
+      printHeader("Translator Notes");
+
+      if (keys.length === 0) {
+        console.log(colorize("  No translator notes defined yet.", "dim"));
+        console.log(
+          `\n  Add one with: ${colorize("transl8 context set <key> <note>", "cyan")}`,
+        );
+        return;
+      }
+
+      console.log(
+        `\n${colorize("  File:", "dim")} ${relPath(getContextPath())}\n`,
+      );
+      const sourceKeys = new Set(flattenKeys(source));
+      for (const key of keys) {
+        const unknown = sourceKeys.has(key)
+          ? ""
+          : colorize(" (not in source)", "yellow");
+        console.log(`  ${colorize(key, "cyan")}${unknown}`);
+        console.log(`    ${notes[key]}`);
+      }
+
+      console.log(`\n${colorize("Total:", "bold")} ${keys.length} notes`);
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
+contextCmd
+  .command("set <key> <note>")
+  .description("Add or replace the translator note of a key")
+  .action((key: string, note: string) => {
+    try {
+      const source = loadTranslationFile(
+        path.join(getMessagesDir(), "en.json"),
+      );
+      if (typeof getValueAtPath(source, key) !== "string") {
+        console.error(colorize(`Error: Key not found in source: ${key}`, "red"));
+        process.exit(1);
+      }
+
+      setContextNote(key, note);
+      console.log(colorize(`✓ Set translator note for "${key}".`, "green"));
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
+contextCmd
+  .command("remove <key>")
+  .description("Remove the translator note of a key from context.json")
+  .action((key: string) => {
+    try {
+      if (!removeContextNote(key)) {
+        console.log(
+          colorize(
+            `No translator note for "${key}" in context.json.`,
+            "yellow",
+          ),
+        );
+        return;
+      }
+      console.log(
+        colorize(`✓ Removed translator note for "${key}".`, "green"),
+      );
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// prompt command — inspect the prompts sent for a key
+// ============================================================================
+const promptCmd = program
+  .command("prompt")
+  .description("Inspect the prompts sent to the provider");
+
+promptCmd
+  .command("show <language> <key>")
+  .description(
+    "Render the final system and user prompt for a key (templates applied)",
+  )
+  .action((language: string, key: string) => {
+    try {
+      const request = buildKeyRequest(language, key);
+      const { prompts } = getTranslatorConfig();
+      const langInfo = getLanguageInfo(language);
+      printHeader(`Prompt: ${langInfo?.name || language} — ${key}`);
+
+      const userTemplate =
+        request.task.type === "descriptionWithLinks"
+          ? prompts.descriptionWithLinks
+          : prompts.translation;
+      const describe = (template: string | undefined) =>
+        colorize(template ? `(${relPath(template)})` : "(built-in)", "dim");
+
+      printSection(`System prompt ${describe(prompts.system)}`);
+      console.log(request.instructions);
+      printSection(`User prompt ${describe(userTemplate)}`);
+      console.log(request.input);
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// tm command — inspect and manage the translation memory
+// ============================================================================
+const tmCmd = program
+  .command("tm")
+  .description(
+    "Manage the translation memory (translations reused instead of re-requested)",
+  );
+
+tmCmd
+  .command("stats")
+  .description("Show translation memory size, hits and languages")
+  .action(() => {
+    try {
+      const stats = getTranslationMemoryStats();
+      printHeader("Translation Memory");
+
+      console.log(`\n${colorize("  File:", "dim")} ${relPath(stats.path)}`);
+      console.log(`  ${colorize("Entries:", "bold")} ${stats.entries}`);
+      console.log(
+        `  ${colorize("Hits:", "bold")} ${stats.hits} (requests saved)`,
+      );
+      console.log(
+        `  ${colorize("Size:", "bold")} ${(stats.sizeBytes / 1024).toFixed(1)} KB`,
+      );
+
+      if (stats.entries === 0) return;
+
+      printSection("By language");
+      for (const [lang, count] of Object.entries(stats.byLanguage).sort()) {
+        const name = getLanguageInfo(lang)?.name || lang;
+        console.log(`  ${colorize(lang.padEnd(6), "cyan")} ${name}: ${count}`);
+      }
+
+      printSection("By model");
+      for (const [model, count] of Object.entries(stats.byModel).sort()) {
+        console.log(`  ${colorize(model, "cyan")}: ${count}`);
+      }
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
+tmCmd
+  .command("clear")
+  .description("Delete translation memory entries")
+  .option("-l, --language <code>", "Only clear entries for this language")
+  .action((opts: { language?: string }) => {
+    try {
+      const removed = clearTranslationMemory(opts.language);
+      const scope = opts.language ? ` for ${opts.language}` : "";
+      console.log(
+        colorize(
+          `✓ Removed ${removed} translation memory entries${scope}.`,
+          "green",
+        ),
+      );
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
+tmCmd
+  .command("export [outputFile]")
+  .description("Export translation memory entries as JSON")
+  .option("-l, --language <code>", "Only export entries for this language")
+  .action((outputFile: string | undefined, opts: { language?: string }) => {
+    try {
+      const entries = exportTranslationMemory(opts.language);
+      const json = JSON.stringify(entries, null, 2);
+
+      if (!outputFile) {
+        console.log(json);
+        return;
+      }
+
+      fs.writeFileSync(outputFile, json + "\n", "utf-8");
+      console.log(
+        colorize(
+          `✓ Exported ${entries.length} entries to: ${outputFile}`,
+          "green",
+        ),
+      );
+    } catch (error) {
+      console.error(
+        colorize(
+          `Error: ${error instanceof Error ? error.message : error}`,
+          "red",
+        ),
+      );
+      process.exit(1);
+    }
+  });
+
+// ============================================================================
+// usage command
+// ============================================================================
+program
+  .command("usage")
+  .description(
+    "Show tokens and cost spent by past runs, by day, language and model",
+  )
+  .option(
+    "--since <date>",
+    "Only include runs on or after this date (YYYY-MM-DD)",
+  )
+  .option(
+    "--until <date>",
+    "Only include runs on or before this date (YYYY-MM-DD)",
+  )
+  .option("-l, --language <code>", "Only include this language")
+  .option("--json", "Output as JSON")
+  .action(
+    (opts: {
+      since?: string;
+      until?: string;
+      language?: string;
+      json?: boolean;
+    }) => {
+      try {
+        const entries = loadUsageLedger().filter((entry) => {
+          const day = entry.timestamp.slice(0, 10);
+          return (
+            (!opts.since || day >= opts.since) &&
+            (!opts.until || day <= opts.until) &&
+            (!opts.language || entry.language === opts.language)
+          );
+        });
+
+        if (opts.json) {
+          console.log(
+            JSON.stringify(
+              {
+                total: sumUsage(entries).total ?? null,
+                byDay: sumUsage(entries, (e) => e.timestamp.slice(0, 10)),
+                byLanguage: sumUsage(entries, (e) => e.language),
+                byModel: sumUsage(entries, (e) => `${e.provider}/${e.model}`),
+                byCommand: sumUsage(entries, (e) => e.command),
+                entries,
+              },
+              null,
+              2,
+            ),
+          );
+          return;
+        }
+
+        printUsageReport(entries);
+      } catch (error) {
+        console.error(
+          colorize(
+            `Error: ${error instanceof Error ? error.message : error}`,
+            "red",
+          ),
+        );
+        process.exit(1);
+      }
+    },
+  );
+
 // Show banner when running interactively with a command
 if (process.stdout.isTTY && process.argv.length > 2) {
   printBanner();
@@ -0,0 +1,65 @@
+/**
+ * Length limits — hard maximum lengths per key, for text that has to fit
+ * fixed-size UI elements such as buttons on small screens
+ */
+
+import type { LengthLimit, LengthOverflow, TranslationFile } from "./types.js";
+import { measureMessageLength } from "./icu.js";
+import { getInlineMaxLength } from "./notes.js";
+import { flattenKeys, getValueAtPath, matchesKeyPattern } from "./utils.js";
+
+/**
+ * Get the hard length limit of a key: the strictest of its inline
+ * `maxLength` and every matching pattern in `limits`. Ratios are relative to
+ * the source value's length.
+ */
+export function getMaxLength(
+  sourceFile: TranslationFile,
+  key: string,
+  limits: Record<string, LengthLimit>,
+): number | undefined {
+  const source = getValueAtPath(sourceFile, key);
+  if (typeof source !== "string") return undefined;
+
+  const candidates: number[] = [];
+  const inline = getInlineMaxLength(sourceFile, key);
+  if (inline) candidates.push(inline);
+
+  for (const [pattern, limit] of Object.entries(limits)) {
+    if (!matchesKeyPattern(key, pattern)) continue;
+    if (limit.maxChars) candidates.push(limit.maxChars);
+    if (limit.maxRatio) {
+      candidates.push(
+        Math.max(1, Math.floor(measureMessageLength(source) * limit.maxRatio)),
+      );
+    }
+  }
+
+  return candidates.length > 0 ? Math.min(...candidates) : undefined;
+}
+
+/**
+ * Find translations longer than their key's hard length limit
+ */
+export function findLengthOverflows(
+  sourceFile: TranslationFile,
+  targetFile: TranslationFile,
+  limits: Record<string, LengthLimit>,
+): LengthOverflow[] {
+  const overflows: LengthOverflow[] = [];
+
+  for (const key of flattenKeys(sourceFile)) {
+    const value = getValueAtPath(targetFile, key);
+    if (typeof value !== "string") continue;
+
+    const maxLength = getMaxLength(sourceFile, key, limits);
+    if (!maxLength) continue;
+
+    const length = measureMessageLength(value);
+    if (length > maxLength) {
+      overflows.push({ key, value, length, maxLength });
+    }
+  }
+
+  return overflows;
+}
@@ -0,0 +1,126 @@
+/**
+ * Source lockfile — remembers which version of each English value a
+ * translation was made from, so edits to the source can be detected
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import type {
+  SourceLockFile,
+  TranslationFile,
+  TranslationResult,
+} from "./types.js";
+import { getMessagesDir, flattenKeys, getValueAtPath } from "./utils.js";
+
+const LOCK_FILE_NAME = "transl8.lock.json";
+
+/**
+ * Get the path to transl8.lock.json (next to the messages directory)
+ */
+export function getLockFilePath(): string {
+  return path.join(path.dirname(getMessagesDir()), LOCK_FILE_NAME);
+}
+
+/**
+ * Hash a source value for the lockfile
+ */
+export function hashSourceValue(value: string): string {
+  return crypto.createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/**
+ * Load the lockfile. Returns an empty lockfile if none exists.
+ */
+function loadLockFile(): SourceLockFile {
+  const filePath = getLockFilePath();
+  if (!fs.existsSync(filePath)) {
+    return { version: 1, languages: {} };
+  }
+  const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  return { version: 1, languages: parsed.languages || {} };
+}
+
+/**
+ * Save the lockfile with sorted languages and keys so diffs stay small
+ */
+function saveLockFile(lock: SourceLockFile): void {
+  const languages: SourceLockFile["languages"] = {};
+  for (const lang of Object.keys(lock.languages).sort()) {
+    const hashes = lock.languages[lang];
+    languages[lang] = Object.fromEntries(
+      Object.keys(hashes)
+        .sort()
+        .map((key) => [key, hashes[key]]),
+    );
+  }
+  fs.writeFileSync(
+    getLockFilePath(),
+    JSON.stringify({ version: 1, languages }, null, 2) + "\n",
+    "utf-8",
+  );
+}
+
+/**
+ * Get the recorded source hashes (key path → hash) for a language
+ */
+export function loadSourceHashes(language: string): Record<string, string> {
+  return loadLockFile().languages[language] || {};
+}
+
+/**
+ * Record the source values of every written (non-failed) result
+ */
+export function recordSourceHashes(
+  language: string,
+  results: TranslationResult[],
+): void {
+  const written = results.filter((r) => r.status !== "failed");
+  if (written.length === 0) return;
+
+  const lock = loadLockFile();
+  const hashes = (lock.languages[language] ||= {});
+  for (const result of written) {
+    hashes[result.key] = hashSourceValue(result.originalValue);
+  }
+  saveLockFile(lock);
+}
+
+/**
+ * Mark every string key present in both files as translated from the
+ * current source value. Returns the number of keys recorded.
+ */
+export function recordSourceBaseline(
+  language: string,
+  source: TranslationFile,
+  target: TranslationFile,
+): number {
+  const lock = loadLockFile();
+  const hashes = (lock.languages[language] ||= {});
+  let count = 0;
+  for (const key of flattenKeys(source)) {
+    const sourceValue = getValueAtPath(source, key);
+    if (
+      typeof sourceValue === "string" &&
+      typeof getValueAtPath(target, key) === "string"
+    ) {
+      hashes[key] = hashSourceValue(sourceValue);
+      count++;
+    }
+  }
+  saveLockFile(lock);
+  return count;
+}
+
+/**
+ * Forget the recorded hashes of keys removed from a language
+ */
+export function removeSourceHashes(language: string, keys: string[]): void {
+  const lock = loadLockFile();
+  const hashes = lock.languages[language];
+  if (!hashes) return;
+  for (const key of keys) {
+    delete hashes[key];
+  }
+  saveLockFile(lock);
+}
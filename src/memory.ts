@@ -0,0 +1,201 @@
+/**
+ * Translation memory — translations already paid for, reused whenever the
+ * same source text is translated again with the same prompt and model
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import type { TranslationMemoryEntry, TranslationMemoryKey } from "./types.js";
+import { getStateDir } from "./utils.js";
+
+const MEMORY_FILE = "tm.json";
+
+interface TranslationMemoryFile {
+  version: 1;
+  entries: Record<string, TranslationMemoryEntry>;
+}
+
+export interface TranslationMemoryStats {
+  path: string;
+  entries: number;
+  hits: number;
+  sizeBytes: number;
+  byLanguage: Record<string, number>;
+  byModel: Record<string, number>;
+}
+
+/** Loaded memory, cached for the process lifetime */
+let memory: TranslationMemoryFile | null = null;
+let dirty = false;
+
+/**
+ * Get the path to .transl8/tm.json
+ */
+export function getTranslationMemoryPath(): string {
+  return path.join(getStateDir(), MEMORY_FILE);
+}
+
+/**
+ * Load the memory file (once). A missing or unreadable file is an empty memory.
+ */
+function loadMemory(): TranslationMemoryFile {
+  if (memory) return memory;
+
+  memory = { version: 1, entries: {} };
+  const filePath = getTranslationMemoryPath();
+  if (fs.existsSync(filePath)) {
+    try {
+      const parsed = JSON.parse(
+        fs.readFileSync(filePath, "utf-8"),
+      ) as TranslationMemoryFile;
+      if (parsed && typeof parsed.entries === "object") {
+        memory = { version: 1, entries: parsed.entries };
+      }
+    } catch {
+      // Corrupt file: start over rather than block translation
+    }
+  }
+  return memory;
+}
+
+/**
+ * Hash the fields a translation depends on into an entry id
+ */
+function getEntryId(key: TranslationMemoryKey): string {
+  const fields = [
+    key.source,
+    key.language,
+    key.provider,
+    key.model,
+    key.promptVersion,
+  ];
+  // Only keys with a note, length limit or glossary terms hash them, so
+  // existing entries keep their ids
+  if (key.note) fields.push(key.note);
+  if (key.maxLength) fields.push(`maxLength:${key.maxLength}`);
+  if (key.glossary) fields.push(`glossary:${key.glossary}`);
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(fields))
+    .digest("hex");
+}
+
+/**
+ * Look up a stored translation. Counts as a hit when found.
+ */
+export function lookupTranslation(
+  key: TranslationMemoryKey,
+): string | undefined {
+  const entry = loadMemory().entries[getEntryId(key)];
+  if (!entry) return undefined;
+
+  entry.hits++;
+  entry.lastUsedAt = new Date().toISOString();
+  dirty = true;
+  return entry.translation;
+}
+
+/**
+ * Check whether a translation is stored, without counting a hit
+ */
+export function hasTranslation(key: TranslationMemoryKey): boolean {
+  return getEntryId(key) in loadMemory().entries;
+}
+
+/**
+ * Store a successful translation. Call saveTranslationMemory() to persist.
+ */
+export function storeTranslation(
+  key: TranslationMemoryKey,
+  translation: string,
+): void {
+  const now = new Date().toISOString();
+  loadMemory().entries[getEntryId(key)] = {
+    source: key.source,
+    language: key.language,
+    provider: key.provider,
+    model: key.model,
+    promptVersion: key.promptVersion,
+    ...(key.note && { note: key.note }),
+    ...(key.maxLength && { maxLength: key.maxLength }),
+    translation,
+    createdAt: now,
+    lastUsedAt: now,
+    hits: 0,
+  };
+  dirty = true;
+}
+
+/**
+ * Write the memory to disk if anything changed since it was loaded
+ */
+export function saveTranslationMemory(): void {
+  if (!memory || !dirty) return;
+
+  const filePath = getTranslationMemoryPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(memory, null, 2) + "\n", "utf-8");
+  dirty = false;
+}
+
+/**
+ * Summarize the memory contents
+ */
+export function getTranslationMemoryStats(): TranslationMemoryStats {
+  const filePath = getTranslationMemoryPath();
+  const entries = Object.values(loadMemory().entries);
+  const stats: TranslationMemoryStats = {
+    path: filePath,
+    entries: entries.length,
+    hits: 0,
+    sizeBytes: fs.existsSync(filePath) ? fs.statSync(filePath).size : 0,
+    byLanguage: {},
+    byModel: {},
+  };
+
+  for (const entry of entries) {
+    stats.hits += entry.hits;
+    stats.byLanguage[entry.language] =
+      (stats.byLanguage[entry.language] || 0) + 1;
+    const model = `${entry.provider}/${entry.model}`;
+    stats.byModel[model] = (stats.byModel[model] || 0) + 1;
+  }
+  return stats;
+}
+
+/**
+ * Remove entries (all, or only one language's) and save.
+ * Returns the number of entries removed.
+ */
+export function clearTranslationMemory(language?: string): number {
+  const { entries } = loadMemory();
+  let removed = 0;
+  for (const [id, entry] of Object.entries(entries)) {
+    if (!language || entry.language === language) {
+      delete entries[id];
+      removed++;
+    }
+  }
+  if (removed > 0) {
+    dirty = true;
+    saveTranslationMemory();
+  }
+  return removed;
+}
+
+/**
+ * Get the stored entries, optionally for one language, sorted by language
+ * then source text
+ */
+export function exportTranslationMemory(
+  language?: string,
+): TranslationMemoryEntry[] {
+  return Object.values(loadMemory().entries)
+    .filter((entry) => !language || entry.language === language)
+    .sort(
+      (a, b) =>
+        a.language.localeCompare(b.language) ||
+        a.source.localeCompare(b.source),
+    );
+}
@@ -0,0 +1,177 @@
+/**
+ * Translator notes — per-key explanations of where and how a string is used,
+ * so identical source text can be translated differently in each place.
+ * Inline metadata can also set a key's hard length limit.
+ */
+
+import * as fs from "fs";
+import type { TranslationFile } from "./types.js";
+import { getContextPath, isMetadataKey } from "./utils.js";
+
+/** Sidecar notes (context.json), cached for the process lifetime */
+let sidecarNotes: Record<string, string> | null = null;
+
+/** Metadata written next to the keys in a source file */
+interface InlineMetadata {
+  notes: Record<string, string>;
+  maxLengths: Record<string, number>;
+}
+
+/** Inline metadata per source file object, so each file is scanned once */
+const inlineMetadataCache = new WeakMap<TranslationFile, InlineMetadata>();
+
+/**
+ * Load the sidecar notes file: { "<dotted key>": "<note>" }.
+ * Returns an empty object if the file doesn't exist.
+ */
+export function loadContextFile(): Record<string, string> {
+  if (sidecarNotes) return sidecarNotes;
+
+  sidecarNotes = {};
+  const filePath = getContextPath();
+  if (fs.existsSync(filePath)) {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Record<
+      string,
+      unknown
+    >;
+    for (const [key, note] of Object.entries(parsed)) {
+      if (typeof note === "string") sidecarNotes[key] = note;
+    }
+  }
+  return sidecarNotes;
+}
+
+/**
+ * Write the sidecar notes file, sorted by key
+ */
+function saveContextFile(notes: Record<string, string>): void {
+  const sorted = Object.fromEntries(
+    Object.entries(notes).sort(([a], [b]) => a.localeCompare(b)),
+  );
+  fs.writeFileSync(
+    getContextPath(),
+    JSON.stringify(sorted, null, 2) + "\n",
+    "utf-8",
+  );
+  sidecarNotes = sorted;
+}
+
+/**
+ * Read a note from an inline metadata value: a string, or an ARB-style
+ * object with a `description`
+ */
+function readInlineNote(value: unknown): string | undefined {
+  if (typeof value === "string") return value;
+  if (typeof value === "object" && value !== null) {
+    const description = (value as Record<string, unknown>).description;
+    if (typeof description === "string") return description;
+  }
+  return undefined;
+}
+
+/**
+ * Record the note and `maxLength` of one inline metadata value
+ */
+function readInlineMetadata(
+  key: string,
+  value: unknown,
+  metadata: InlineMetadata,
+): void {
+  const text = readInlineNote(value);
+  if (text) metadata.notes[key] = text;
+  if (typeof value === "object" && value !== null) {
+    const maxLength = (value as Record<string, unknown>).maxLength;
+    if (typeof maxLength === "number" && maxLength > 0) {
+      metadata.maxLengths[key] = maxLength;
+    }
+  }
+}
+
+/**
+ * Collect metadata written in the source file itself: `"@save": "..."` next
+ * to `"save"`, or a `"_context": { "save": "..." }` object in the same section
+ */
+function collectInlineMetadata(
+  obj: TranslationFile,
+  prefix: string,
+  metadata: InlineMetadata,
+): void {
+  for (const [name, value] of Object.entries(obj)) {
+    const base = prefix ? `${prefix}.` : "";
+    if (name === "_context") {
+      // Anything but an object (null, a string, an array) holds no notes
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        continue;
+      }
+      for (const [child, entry] of Object.entries(value)) {
+        readInlineMetadata(base + child, entry, metadata);
+      }
+    } else if (isMetadataKey(name)) {
+      readInlineMetadata(base + name.slice(1), value, metadata);
+    } else if (typeof value === "object" && value !== null) {
+      collectInlineMetadata(value, base + name, metadata);
+    }
+  }
+}
+
+/**
+ * Get the inline metadata of a source file (scanned once per file object)
+ */
+function getInlineMetadata(sourceFile: TranslationFile): InlineMetadata {
+  let inline = inlineMetadataCache.get(sourceFile);
+  if (!inline) {
+    inline = { notes: {}, maxLengths: {} };
+    collectInlineMetadata(sourceFile, "", inline);
+    inlineMetadataCache.set(sourceFile, inline);
+  }
+  return inline;
+}
+
+/**
+ * Get every translator note for a source file: inline metadata, overridden by
+ * the sidecar file
+ */
+export function getContextNotes(
+  sourceFile: TranslationFile,
+): Record<string, string> {
+  return { ...getInlineMetadata(sourceFile).notes, ...loadContextFile() };
+}
+
+/**
+ * Get the translator note for one key, if any
+ */
+export function getContextNote(
+  sourceFile: TranslationFile,
+  key: string,
+): string | undefined {
+  return loadContextFile()[key] ?? getInlineMetadata(sourceFile).notes[key];
+}
+
+/**
+ * Get the inline `maxLength` of a key, if any
+ */
+export function getInlineMaxLength(
+  sourceFile: TranslationFile,
+  key: string,
+): number | undefined {
+  return getInlineMetadata(sourceFile).maxLengths[key];
+}
+
+/**
+ * Add or replace a note in the sidecar file
+ */
+export function setContextNote(key: string, note: string): void {
+  saveContextFile({ ...loadContextFile(), [key]: note });
+}
+
+/**
+ * Remove a note from the sidecar file. Returns false if it had none.
+ * Inline notes in the source file must be edited there.
+ */
+export function removeContextNote(key: string): boolean {
+  const notes = { ...loadContextFile() };
+  if (!(key in notes)) return false;
+  delete notes[key];
+  saveContextFile(notes);
+  return true;
+}
@@ -0,0 +1,86 @@
+/**
+ * Prompt templates — files from .transl8rc.json that replace the built-in
+ * prompts, with {{variable}} placeholders filled in for each request
+ */
+
+import * as fs from "fs";
+import type { PromptTemplates } from "./types.js";
+
+export type PromptKind = keyof PromptTemplates;
+
+/** Variables every template can use */
+const LANGUAGE_VARIABLES = [
+  "languageName",
+  "nativeName",
+  "languageCode",
+  "sourceLanguageName",
+];
+
+/** Variables available to each kind of template */
+export const PROMPT_VARIABLES: Record<PromptKind, string[]> = {
+  system: [...LANGUAGE_VARIABLES, "glossarySection", "styleGuidelines"],
+  translation: [
+    ...LANGUAGE_VARIABLES,
+    "key",
+    "section",
+    "source",
+    "sourceLength",
+    "minLength",
+    "maxLength",
+    "hardMaxLength",
+    "note",
+    "similarExamples",
+    "referenceTranslations",
+    "placeholderNotes",
+    "contextNotes",
+  ],
+  descriptionWithLinks: [
+    ...LANGUAGE_VARIABLES,
+    "key",
+    "source",
+    "linkTexts",
+    "linkCount",
+  ],
+};
+
+/** Template files, cached for the process lifetime */
+const templateCache = new Map<string, string>();
+
+/**
+ * Read a template file (once per process)
+ */
+export function loadPromptTemplate(filePath: string): string {
+  let template = templateCache.get(filePath);
+  if (template === undefined) {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Prompt template not found: ${filePath}`);
+    }
+    template = fs.readFileSync(filePath, "utf-8");
+    templateCache.set(filePath, template);
+  }
+  return template;
+}
+
+/**
+ * Render a template file. `{{name}}` is replaced by the variable's value;
+ * empty variables leave no run of blank lines behind. Unknown variables are
+ * an error so typos don't silently reach the model.
+ */
+export function renderPromptTemplate(
+  kind: PromptKind,
+  filePath: string,
+  variables: Record<string, string | number | undefined>,
+): string {
+  const allowed = PROMPT_VARIABLES[kind];
+  return loadPromptTemplate(filePath)
+    .replace(/\{\{\s*([A-Za-z]+)\s*\}\}/g, (_, name: string) => {
+      if (!allowed.includes(name)) {
+        throw new Error(
+          `Unknown variable {{${name}}} in ${kind} prompt template ${filePath}. Available: ${allowed.join(", ")}`,
+        );
+      }
+      return String(variables[name] ?? "");
+    })
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
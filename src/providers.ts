@@ -0,0 +1,521 @@
+/**
+ * Translation providers — pluggable LLM backends used by the translator
+ */
+
+import OpenAI from "openai";
+import * as fs from "fs";
+import type {
+  Transl8Config,
+  TranslationProvider,
+  ProviderRequest,
+  ProviderResponse,
+  MockProviderConfig,
+  TokenUsage,
+  Glossary,
+  LanguageInfo,
+} from "./types.js";
+import { SUPPORTED_LANGUAGES } from "./types.js";
+import { loadGlossary, matchesKeyPattern } from "./utils.js";
+import { findTermOccurrences, type TermOccurrence } from "./glossary.js";
+import { tryParseMessage } from "./icu.js";
+
+export type ProviderFactory = (config: Transl8Config) => TranslationProvider;
+
+/**
+ * Error thrown by providers so the translator knows how to react:
+ * `retryable` errors are retried with backoff, `fatal` errors (bad API key,
+ * unknown model) abort the whole run, anything else fails just that key.
+ * Plain errors from custom providers are treated as non-retryable.
+ */
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly fatal: boolean;
+  /** Server-requested wait before retrying (from Retry-After) */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: {
+      status?: number;
+      retryable?: boolean;
+      fatal?: boolean;
+      retryAfterMs?: number;
+    } = {},
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.fatal = options.fatal ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Classify an HTTP status the way every OpenAI-style API uses it
+ */
+export function providerErrorFromStatus(
+  message: string,
+  status: number | undefined,
+  retryAfterMs?: number,
+): ProviderError {
+  const retryable =
+    status === undefined ||
+    status === 408 ||
+    status === 409 ||
+    status === 429 ||
+    status >= 500;
+  const fatal = status === 401 || status === 403 || status === 404;
+  return new ProviderError(message, { status, retryable, fatal, retryAfterMs });
+}
+
+/**
+ * Parse Retry-After (seconds or HTTP date) / retry-after-ms headers
+ */
+function parseRetryAfter(headers: Headers | undefined): number | undefined {
+  if (!headers) return undefined;
+
+  const ms = headers.get("retry-after-ms");
+  if (ms && !isNaN(Number(ms))) {
+    return Number(ms);
+  }
+
+  const value = headers.get("retry-after");
+  if (!value) return undefined;
+  if (!isNaN(Number(value))) {
+    return Number(value) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+const providerFactories = new Map<string, ProviderFactory>();
+
+/**
+ * Register a provider factory under a name usable in the `provider` config field.
+ * Registering an existing name replaces it.
+ */
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  providerFactories.set(name, factory);
+}
+
+/**
+ * List the names of all registered providers
+ */
+export function listProviders(): string[] {
+  return [...providerFactories.keys()];
+}
+
+/**
+ * Create the provider selected by the config
+ */
+export function createProvider(config: Transl8Config): TranslationProvider {
+  const factory = providerFactories.get(config.provider);
+  if (!factory) {
+    throw new Error(
+      `Unknown translation provider: ${config.provider}. Available providers: ${listProviders().join(", ")}`,
+    );
+  }
+  return factory(config);
+}
+
+// ============================================================================
+// OpenAI provider
+// ============================================================================
+
+/**
+ * Create the OpenAI provider. Also works with any OpenAI-compatible server
+ * (llama.cpp, vLLM, Ollama, internal gateways) via `baseURL` and `apiMode`.
+ */
+function createOpenAIProvider(config: Transl8Config): TranslationProvider {
+  const key = process.env.OPENAI_API_KEY;
+  if (!key && !config.baseURL) {
+    throw new Error(
+      "OpenAI API key not found. Please set OPENAI_API_KEY environment variable.",
+    );
+  }
+
+  const client = new OpenAI({
+    // Local servers usually ignore the key, but the SDK requires one
+    apiKey: key || "not-needed",
+    baseURL: config.baseURL,
+    defaultHeaders: config.headers,
+    timeout: config.timeout,
+    // Retries are handled by the translator so they follow config.retry
+    maxRetries: 0,
+  });
+
+  const toProviderError = (error: unknown): unknown => {
+    if (!(error instanceof OpenAI.APIError)) return error;
+    // Out of credits or an unknown model won't fix itself on retry
+    if (
+      error.code === "insufficient_quota" ||
+      error.code === "model_not_found" ||
+      error.code === "invalid_api_key"
+    ) {
+      return new ProviderError(error.message, {
+        status: error.status,
+        fatal: true,
+      });
+    }
+    return providerErrorFromStatus(
+      error.message,
+      error.status,
+      parseRetryAfter(error.headers),
+    );
+  };
+
+  const completeRequest = async (
+    request: ProviderRequest,
+  ): Promise<ProviderResponse> => {
+    const format = request.responseFormat;
+
+    if (config.apiMode === "chat") {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        messages: [
+          { role: "system", content: request.instructions },
+          { role: "user", content: request.input },
+        ],
+        ...(format && {
+          response_format: {
+            type: "json_schema" as const,
+            json_schema: {
+              name: format.name,
+              schema: format.schema,
+              strict: true,
+            },
+          },
+        }),
+      });
+      return {
+        text: completion.choices[0]?.message?.content?.trim() || "",
+        usage: completion.usage && {
+          inputTokens: completion.usage.prompt_tokens,
+          outputTokens: completion.usage.completion_tokens,
+          cachedTokens:
+            completion.usage.prompt_tokens_details?.cached_tokens || 0,
+        },
+      };
+    }
+
+    const response = await client.responses.create({
+      model: request.model,
+      instructions: request.instructions,
+      input: request.input,
+      ...(format && {
+        text: {
+          format: {
+            type: "json_schema" as const,
+            name: format.name,
+            schema: format.schema,
+            strict: true,
+          },
+        },
+      }),
+    });
+    return {
+      text: response.output_text?.trim() || "",
+      usage: response.usage && {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+        cachedTokens: response.usage.input_tokens_details?.cached_tokens || 0,
+      },
+    };
+  };
+
+  return {
+    name: "openai",
+    async complete(request: ProviderRequest): Promise<ProviderResponse> {
+      try {
+        return await completeRequest(request);
+      } catch (error) {
+        throw toProviderError(error);
+      }
+    },
+  };
+}
+
+registerProvider("openai", createOpenAIProvider);
+
+// ============================================================================
+// Mock provider — deterministic offline responses for tests and CI
+// ============================================================================
+
+const PSEUDO_CHARS: Record<string, string> = {
+  a: "á",
+  e: "é",
+  i: "í",
+  o: "ó",
+  u: "ú",
+  y: "ý",
+  A: "Á",
+  E: "É",
+  I: "Í",
+  O: "Ó",
+  U: "Ú",
+  Y: "Ý",
+};
+
+/**
+ * Pseudo-translate a string by accenting vowels. Anything inside braces is
+ * left untouched so placeholders and ICU syntax survive, and so are the
+ * glossary `terms` found in it, which come out as their required rendering.
+ */
+export function pseudoTranslate(
+  text: string,
+  terms: TermOccurrence[] = [],
+): string {
+  const termsAt = new Map(terms.map((term) => [term.index, term]));
+  let depth = 0;
+  let result = "";
+  for (let i = 0; i < text.length; i++) {
+    const term = termsAt.get(i);
+    if (depth === 0 && term) {
+      result += term.rendering;
+      i += term.length - 1;
+      continue;
+    }
+    const ch = text[i];
+    if (ch === "{") depth++;
+    if (ch === "}") depth = Math.max(0, depth - 1);
+    result += depth === 0 && PSEUDO_CHARS[ch] ? PSEUDO_CHARS[ch] : ch;
+  }
+  return result;
+}
+
+/**
+ * Give every plural/selectordinal argument of a message exactly the CLDR
+ * categories of a language, as a real translation must: missing categories
+ * get a copy of the `other` branch, ones the language doesn't use are
+ * dropped, and `=N` branches are kept. Invalid ICU is returned as-is.
+ */
+function adaptPluralBranches(message: string, language: LanguageInfo): string {
+  if (!tryParseMessage(message)) return message;
+
+  const header =
+    /^\{\s*([\w.]+)\s*,\s*(plural|selectordinal)\s*,(\s*offset:\s*\d+)?/;
+  let result = "";
+  let pos = 0;
+  while (pos < message.length) {
+    const match = message[pos] === "{" ? header.exec(message.slice(pos)) : null;
+    if (!match) {
+      result += message[pos++];
+      continue;
+    }
+
+    // Read the `selector {branch}` pairs up to the argument's closing brace
+    pos += match[0].length;
+    const branches = new Map<string, string>();
+    for (;;) {
+      while (/\s/.test(message[pos])) pos++;
+      if (message[pos] === "}") break;
+      const selector = /^[^\s{]+/.exec(message.slice(pos))![0];
+      pos = message.indexOf("{", pos + selector.length) + 1;
+      const start = pos;
+      for (let depth = 1; depth > 0; pos++) {
+        if (message[pos] === "{") depth++;
+        if (message[pos] === "}") depth--;
+      }
+      branches.set(
+        selector,
+        adaptPluralBranches(message.slice(start, pos - 1), language),
+      );
+    }
+    pos++;
+
+    const categories =
+      match[2] === "selectordinal"
+        ? language.ordinalCategories
+        : language.pluralCategories;
+    const selectors = [
+      ...[...branches.keys()].filter((selector) => selector.startsWith("=")),
+      ...categories,
+    ];
+    const options = selectors.map(
+      (selector) =>
+        `${selector} {${branches.get(selector) ?? branches.get("other")}}`,
+    );
+    result += `{${match[1]}, ${match[2]},${match[3] ?? ""} ${options.join(" ")}}`;
+  }
+  // Quoted braces can throw off the brace counting above
+  return tryParseMessage(result) ? result : message;
+}
+
+/**
+ * Undo pseudoTranslate(), so pseudo translations back-translate to the source
+ */
+function unpseudoTranslate(text: string): string {
+  const plain = Object.fromEntries(
+    Object.entries(PSEUDO_CHARS).map(([ch, accented]) => [accented, ch]),
+  );
+  return [...text].map((ch) => plain[ch] ?? ch).join("");
+}
+
+/**
+ * Stable 32-bit FNV-1a hash, used to pick failing keys deterministically
+ */
+function hashString(str: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Load a fixtures file: { "<lang>": { "<key or source text>": "<translation>" } }
+ */
+function loadMockFixtures(
+  fixturesPath: string,
+): Record<string, Record<string, string>> {
+  if (!fs.existsSync(fixturesPath)) {
+    throw new Error(`Mock fixtures file not found: ${fixturesPath}`);
+  }
+  return JSON.parse(fs.readFileSync(fixturesPath, "utf-8")) as Record<
+    string,
+    Record<string, string>
+  >;
+}
+
+/**
+ * Approximate token usage (about 4 characters per token) so usage
+ * accounting can be exercised offline
+ */
+function mockUsage(request: ProviderRequest, text: string): TokenUsage {
+  return {
+    inputTokens: Math.ceil(
+      (request.instructions.length + request.input.length) / 4,
+    ),
+    outputTokens: Math.ceil(text.length / 4),
+    cachedTokens: 0,
+  };
+}
+
+/**
+ * Create the mock provider. Never touches the network.
+ */
+function createMockProvider(config: Transl8Config): TranslationProvider {
+  const mock: MockProviderConfig = config.mock || { mode: "pseudo" };
+
+  let fixtures: Record<string, Record<string, string>> = {};
+  if (mock.mode === "fixtures") {
+    if (!mock.fixturesPath) {
+      throw new Error(
+        'Mock provider in "fixtures" mode requires mock.fixturesPath in config.',
+      );
+    }
+    fixtures = loadMockFixtures(mock.fixturesPath);
+  }
+
+  // Pseudo translations keep glossary terms, so they pass the glossary check
+  let glossary: Glossary | undefined;
+
+  const shouldFail = (key: string): boolean => {
+    if (mock.failKeys?.some((pattern) => matchesKeyPattern(key, pattern))) {
+      return true;
+    }
+    if (mock.failRate && mock.failRate > 0) {
+      return (hashString(key) % 10000) / 10000 < mock.failRate;
+    }
+    return false;
+  };
+
+  const render = (key: string, source: string, lang: string): string => {
+    switch (mock.mode) {
+      case "echo":
+        return source;
+      case "fixtures": {
+        const value = fixtures[lang]?.[key] ?? fixtures[lang]?.[source];
+        if (value === undefined) {
+          throw new Error(`Mock provider: no fixture for ${lang}:${key}`);
+        }
+        return value;
+      }
+      default: {
+        glossary ??= loadGlossary();
+        const language = SUPPORTED_LANGUAGES.find((l) => l.code === lang);
+        const adapted = language
+          ? adaptPluralBranches(source, language)
+          : source;
+        return pseudoTranslate(
+          adapted,
+          findTermOccurrences(glossary, lang, adapted),
+        );
+      }
+    }
+  };
+
+  return {
+    name: "mock",
+    async complete(request: ProviderRequest): Promise<ProviderResponse> {
+      const { task } = request;
+      if (shouldFail(task.key)) {
+        const message = `Mock provider: injected failure for ${task.key}`;
+        throw mock.failStatus
+          ? providerErrorFromStatus(message, mock.failStatus)
+          : new ProviderError(message);
+      }
+
+      const respond = (text: string): ProviderResponse => ({
+        text,
+        usage: mockUsage(request, text),
+      });
+
+      if (task.type === "backTranslation") {
+        return respond(
+          mock.mode === "pseudo" ? unpseudoTranslate(task.source) : task.source,
+        );
+      }
+
+      if (task.type === "review") {
+        const faithful = task.backTranslation.trim() === task.source.trim();
+        return respond(
+          JSON.stringify({
+            score: faithful ? 5 : 3,
+            reason: faithful
+              ? ""
+              : "Mock review: back-translation differs from the source",
+          }),
+        );
+      }
+
+      if (task.type === "descriptionWithLinks") {
+        return respond(
+          JSON.stringify({
+            description: render(task.key, task.source, task.targetLanguage),
+            // Link texts have no key of their own; fixtures match them by text
+            linkTexts: task.linkTexts.map((text) =>
+              render(text, text, task.targetLanguage),
+            ),
+          }),
+        );
+      }
+
+      if (task.type === "batch") {
+        // Keys that would fail are left out so the caller's per-key
+        // fallback path gets exercised too
+        const translations: Record<string, string> = {};
+        for (const item of task.items) {
+          if (shouldFail(item.key)) continue;
+          try {
+            translations[item.key] = render(
+              item.key,
+              item.source,
+              task.targetLanguage,
+            );
+          } catch {
+            // Missing fixture: omit the key
+          }
+        }
+        return respond(JSON.stringify(translations));
+      }
+
+      return respond(render(task.key, task.source, task.targetLanguage));
+    },
+  };
+}
+
+registerProvider("mock", createMockProvider);
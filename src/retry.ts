@@ -0,0 +1,100 @@
+/**
+ * Retry helpers for provider requests — exponential backoff with jitter,
+ * honoring Retry-After and pausing every worker while rate limited
+ */
+
+import type { RetryConfig } from "./types.js";
+import { ProviderError } from "./providers.js";
+import { colorize } from "./utils.js";
+
+/** Timestamp until which no new request should start (shared by all workers) */
+let rateLimitedUntil = 0;
+
+/**
+ * Resolve after `ms` milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Check whether an error is worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ProviderError && error.retryable;
+}
+
+/**
+ * Check whether an error should abort the whole run
+ */
+export function isFatalError(error: unknown): boolean {
+  return error instanceof ProviderError && error.fatal;
+}
+
+/**
+ * Backoff delay for a retry attempt (0-based): exponential with full jitter,
+ * capped at `maxDelayMs`. A server-provided Retry-After takes precedence,
+ * also capped at `maxDelayMs` so one huge value can't stall the run.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  retry: RetryConfig,
+  retryAfterMs?: number,
+): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, retry.maxDelayMs);
+  }
+  const exponential = Math.min(
+    retry.maxDelayMs,
+    retry.baseDelayMs * 2 ** attempt,
+  );
+  return Math.round(Math.random() * exponential);
+}
+
+/**
+ * Run `fn`, retrying retryable errors up to `retry.maxRetries` times.
+ * Non-retryable errors and the last retryable error are rethrown.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  retry: RetryConfig,
+  options: { label: string; verbose?: boolean },
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    const wait = rateLimitedUntil - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+
+    try {
+      return await fn();
+    } catch (error) {
+      if (!isRetryableError(error) || attempt >= retry.maxRetries) {
+        throw error;
+      }
+
+      const providerError = error as ProviderError;
+      const delay = computeBackoffDelay(
+        attempt,
+        retry,
+        providerError.retryAfterMs,
+      );
+
+      // A 429 means the whole org is over its limit, not just this request
+      if (providerError.status === 429) {
+        rateLimitedUntil = Math.max(rateLimitedUntil, Date.now() + delay);
+      }
+
+      if (options.verbose) {
+        console.warn(
+          colorize(
+            `  ↻ Retrying ${options.label} in ${delay}ms (attempt ${attempt + 1}/${retry.maxRetries}): ${providerError.message}`,
+            "yellow",
+          ),
+        );
+      }
+
+      await sleep(delay);
+    }
+  }
+}
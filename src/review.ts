@@ -0,0 +1,406 @@
+/**
+ * Back-translation review — translates existing translations back into the
+ * source language and flags keys whose meaning may have drifted
+ */
+
+import * as path from "path";
+import type {
+  LanguageInfo,
+  ProviderRequest,
+  ReviewResult,
+  TranslationContext,
+} from "./types.js";
+import {
+  buildTranslationContext,
+  completeWithRetry,
+  getLanguageInfo,
+  getTranslatorConfig,
+  loadReferenceTranslations,
+} from "./translator.js";
+import { validateTranslation } from "./validation.js";
+import { isFatalError } from "./retry.js";
+import {
+  colorize,
+  flattenKeys,
+  getMessagesDir,
+  getValueAtPath,
+  isHrefKey,
+  loadTranslationFile,
+  matchesKeyPattern,
+  printHeader,
+  printSection,
+  textSimilarity,
+} from "./utils.js";
+
+/** Model scores at or below this are suspicious */
+const SUSPICIOUS_SCORE = 3;
+
+/** Back-translations sharing less wording than this get a closer look */
+const LOW_SIMILARITY = 0.2;
+
+export interface ReviewReport {
+  language: string;
+  reviewed: number;
+  suspiciousCount: number;
+  /** Every reviewed key, most suspicious first */
+  results: ReviewResult[];
+  /** Keys that could not be reviewed (provider errors, unparseable judgments) */
+  failed: { key: string; error: string }[];
+}
+
+/**
+ * Name of the configured source language, for prompts
+ */
+function getSourceLanguageName(): string {
+  const { sourceLanguage } = getTranslatorConfig();
+  return getLanguageInfo(sourceLanguage)?.name || sourceLanguage;
+}
+
+/**
+ * Build the request that translates a translation back into the source
+ * language. The model doesn't see the original, so it can't just echo it.
+ */
+function buildBackTranslationRequest(
+  key: string,
+  translation: string,
+  language: LanguageInfo,
+): ProviderRequest {
+  const sourceName = getSourceLanguageName();
+  return {
+    model: getTranslatorConfig().model,
+    instructions: `You are a professional translator. Translate UI strings from ${language.name} into ${sourceName}.
+
+Guidelines:
+- Translate faithfully: keep differences in meaning, tone and emphasis visible instead of smoothing them over
+- Keep placeholders like {name}, ICU plural/select syntax and markup exactly as they are
+- Respond with ONLY the translation, nothing else`,
+    input: `Translate to ${sourceName}:
+
+"${translation}"`,
+    task: {
+      type: "backTranslation",
+      key,
+      source: translation,
+      targetLanguage: language.code,
+    },
+  };
+}
+
+/**
+ * Build the request that asks the model to judge a translation, given the
+ * original, the back-translation and the key's translation context
+ */
+function buildReviewRequest(
+  context: TranslationContext,
+  translation: string,
+  backTranslation: string,
+  language: LanguageInfo,
+): ProviderRequest {
+  const sourceName = getSourceLanguageName();
+  let input = `Key: ${context.key}
+Section: ${context.parentSection}${context.note ? `\nTranslator note: ${context.note}` : ""}
+
+${sourceName} original:
+"${context.englishValue}"
+
+${language.name} translation:
+"${translation}"
+
+Back-translation into ${sourceName} (by a translator who did not see the original):
+"${backTranslation}"`;
+
+  const references = Object.entries(context.existingTranslations);
+  if (references.length > 0) {
+    input += "\n\nThe same key in other languages:";
+    for (const [lang, value] of references) {
+      input += `\n- ${getLanguageInfo(lang)?.name || lang}: "${value}"`;
+    }
+  }
+
+  return {
+    model: getTranslatorConfig().model,
+    instructions: `You are a senior localization reviewer. Judge whether a ${language.name} UI translation preserves the meaning of the ${sourceName} original. Use the back-translation as evidence, but remember that wording naturally changes in a round trip; only differences in meaning, tone or missing/added information matter.
+
+Score the translation:
+- 5: faithful
+- 4: minor nuance lost, acceptable
+- 3: noticeable change in meaning or tone
+- 2: wrong meaning
+- 1: unrelated, untranslated or broken
+
+Respond with JSON: {"score": <1-5>, "reason": "<one sentence explaining what is wrong, empty if score is 5>"}`,
+    input,
+    task: {
+      type: "review",
+      key: context.key,
+      source: context.englishValue,
+      translation,
+      backTranslation,
+      targetLanguage: language.code,
+    },
+    responseFormat: {
+      name: "review",
+      schema: {
+        type: "object",
+        properties: {
+          score: { type: "integer" },
+          reason: { type: "string" },
+        },
+        required: ["score", "reason"],
+        additionalProperties: false,
+      },
+    },
+  };
+}
+
+/**
+ * Parse the model's judgment
+ */
+function parseJudgment(text: string): { score: number; reason: string } {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error("Review response is not JSON");
+  }
+  const parsed = JSON.parse(jsonMatch[0]) as {
+    score?: unknown;
+    reason?: unknown;
+  };
+  if (typeof parsed.score !== "number") {
+    throw new Error("Review response has no score");
+  }
+  return {
+    score: Math.min(5, Math.max(1, Math.round(parsed.score))),
+    reason: typeof parsed.reason === "string" ? parsed.reason.trim() : "",
+  };
+}
+
+/**
+ * Back-translate and judge a single key
+ */
+async function reviewKey(
+  context: TranslationContext,
+  translation: string,
+  language: LanguageInfo,
+  options: { verbose?: boolean },
+): Promise<ReviewResult> {
+  const backResponse = await completeWithRetry(
+    buildBackTranslationRequest(context.key, translation, language),
+    options,
+  );
+  const backTranslation = backResponse.text.replace(/^"|"$/g, "").trim();
+  if (!backTranslation) {
+    throw new Error("Provider returned an empty back-translation");
+  }
+
+  const judgment = parseJudgment(
+    (
+      await completeWithRetry(
+        buildReviewRequest(context, translation, backTranslation, language),
+        options,
+      )
+    ).text,
+  );
+
+  const similarity = textSimilarity(context.englishValue, backTranslation);
+  const problems = validateTranslation(
+    context.englishValue,
+    translation,
+    language,
+  );
+
+  const reasons: string[] = [];
+  if (judgment.score < 5 && judgment.reason) {
+    reasons.push(judgment.reason);
+  }
+  reasons.push(...problems);
+  const lowSimilarity = similarity < LOW_SIMILARITY && judgment.score < 5;
+  if (lowSimilarity) {
+    reasons.push(
+      `Back-translation shares little wording with the source (${Math.round(similarity * 100)}% overlap)`,
+    );
+  }
+
+  return {
+    key: context.key,
+    source: context.englishValue,
+    translation,
+    backTranslation,
+    similarity,
+    score: judgment.score,
+    suspicious:
+      judgment.score <= SUSPICIOUS_SCORE ||
+      problems.length > 0 ||
+      lowSimilarity,
+    reasons,
+  };
+}
+
+/**
+ * Run `task` for each item with at most `concurrency` in flight. A fatal
+ * error stops scheduling and is rethrown once running tasks settle.
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>,
+): Promise<void> {
+  let index = 0;
+  let fatalError: unknown = null;
+
+  const worker = async () => {
+    while (!fatalError && index < items.length) {
+      const item = items[index++];
+      try {
+        await task(item);
+      } catch (error) {
+        fatalError = fatalError || error;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  );
+  if (fatalError) throw fatalError;
+}
+
+/**
+ * Review the translations of a language. `keyPatterns` limits the review to
+ * matching keys (e.g. "settings.*"); keys copied from the source (hrefs) and
+ * keys missing from the target are skipped.
+ */
+export async function reviewTranslations(
+  targetLanguage: string,
+  options: {
+    keyPatterns?: string[];
+    verbose?: boolean;
+    onProgress?: (completed: number, total: number) => void;
+  } = {},
+): Promise<ReviewReport> {
+  const langInfo = getLanguageInfo(targetLanguage);
+  if (!langInfo) {
+    throw new Error(`Unsupported language: ${targetLanguage}`);
+  }
+
+  const config = getTranslatorConfig();
+  const messagesDir = getMessagesDir();
+  const englishFile = loadTranslationFile(
+    path.join(messagesDir, `${config.sourceLanguage}.json`),
+  );
+  const targetFile = loadTranslationFile(
+    path.join(messagesDir, `${targetLanguage}.json`),
+  );
+  const existingTranslations = loadReferenceTranslations(targetLanguage);
+
+  const keys = flattenKeys(englishFile).filter((key) => {
+    if (
+      options.keyPatterns &&
+      !options.keyPatterns.some((pattern) => matchesKeyPattern(key, pattern))
+    ) {
+      return false;
+    }
+    const translation = getValueAtPath(targetFile, key);
+    return (
+      typeof getValueAtPath(englishFile, key) === "string" &&
+      typeof translation === "string" &&
+      translation.trim() !== "" &&
+      !isHrefKey(key, config.hrefPatterns)
+    );
+  });
+
+  const results: ReviewResult[] = [];
+  const failed: { key: string; error: string }[] = [];
+  let completed = 0;
+
+  await runWithConcurrency(keys, config.concurrency, async (key) => {
+    const context = buildTranslationContext(
+      englishFile,
+      existingTranslations,
+      key,
+    );
+    try {
+      results.push(
+        await reviewKey(
+          context,
+          getValueAtPath(targetFile, key) as string,
+          langInfo,
+          { verbose: options.verbose },
+        ),
+      );
+    } catch (error) {
+      if (isFatalError(error)) throw error;
+      failed.push({
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    completed++;
+    options.onProgress?.(completed, keys.length);
+  });
+
+  results.sort(
+    (a, b) =>
+      Number(b.suspicious) - Number(a.suspicious) ||
+      a.score - b.score ||
+      a.similarity - b.similarity ||
+      a.key.localeCompare(b.key),
+  );
+  failed.sort((a, b) => a.key.localeCompare(b.key));
+
+  return {
+    language: targetLanguage,
+    reviewed: results.length,
+    suspiciousCount: results.filter((r) => r.suspicious).length,
+    results,
+    failed,
+  };
+}
+
+/**
+ * Print the suspicious keys of a review, most suspicious first
+ */
+export function printReviewReport(report: ReviewReport): void {
+  const langInfo = getLanguageInfo(report.language);
+  printHeader(`Review: ${langInfo?.name || report.language}`);
+
+  console.log("\n" + colorize("Summary:", "bold"));
+  console.log(`  Reviewed: ${colorize(String(report.reviewed), "cyan")}`);
+  console.log(
+    `  Suspicious: ${colorize(String(report.suspiciousCount), report.suspiciousCount > 0 ? "yellow" : "green")}`,
+  );
+  if (report.failed.length > 0) {
+    console.log(
+      `  Not reviewed: ${colorize(String(report.failed.length), "red")}`,
+    );
+  }
+
+  const suspicious = report.results.filter((r) => r.suspicious);
+  if (suspicious.length > 0) {
+    printSection(`Suspicious keys (${suspicious.length})`);
+    for (const result of suspicious) {
+      const color = result.score <= 2 ? "red" : "yellow";
+      console.log(
+        `  ${colorize(`${result.score}/5`, color)} ${colorize(result.key, "cyan")} ${colorize(`(${Math.round(result.similarity * 100)}% overlap)`, "dim")}`,
+      );
+      console.log(`    Source:           "${result.source}"`);
+      console.log(`    Translation:      "${result.translation}"`);
+      console.log(`    Back-translation: "${result.backTranslation}"`);
+      for (const reason of result.reasons) {
+        console.log(`    ${colorize("→", color)} ${reason}`);
+      }
+    }
+  }
+
+  if (report.failed.length > 0) {
+    printSection(`Not reviewed (${report.failed.length})`);
+    for (const { key, error } of report.failed) {
+      console.log(`  ${colorize("✗", "red")} ${key}: ${error}`);
+    }
+  }
+
+  if (suspicious.length === 0 && report.failed.length === 0) {
+    console.log(
+      "\n" + colorize("✓ No suspicious translations found.", "green"),
+    );
+  }
+}
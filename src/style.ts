@@ -0,0 +1,341 @@
+/**
+ * Per-language style — formality, audience and brand voice rendered into the
+ * system prompt, and heuristics that catch strings in the wrong register
+ */
+
+import type {
+  Formality,
+  LanguageInfo,
+  LanguageStyle,
+  TranslationFile,
+} from "./types.js";
+import { flattenKeys, getValueAtPath } from "./utils.js";
+
+interface FormalityRule {
+  /** How the user is addressed in this register, for the prompt */
+  address: string;
+  /** Words or endings that only occur in this register */
+  markers: RegExp;
+}
+
+export interface FormalityIssue {
+  key: string;
+  value: string;
+  /** The word or ending that gave the string away */
+  match: string;
+  message: string;
+}
+
+/**
+ * Match any of `words` as a whole word, in any script
+ */
+function words(list: string[], caseInsensitive = true): RegExp {
+  return new RegExp(
+    `(?<![\\p{L}\\p{M}\\p{N}])(?:${list.join("|")})(?![\\p{L}\\p{M}\\p{N}])`,
+    caseInsensitive ? "iu" : "u",
+  );
+}
+
+/**
+ * Forms of address per language. Languages without an entry still get the
+ * formality in their prompt but can't be linted.
+ */
+const FORMALITY_RULES: Record<string, Record<Formality, FormalityRule>> = {
+  de: {
+    formal: {
+      address: '"Sie" (with "Ihr", "Ihnen")',
+      markers: words(
+        ["Sie", "Ihnen", "Ihr", "Ihre", "Ihren", "Ihrem", "Ihrer", "Ihres"],
+        false,
+      ),
+    },
+    informal: {
+      address: '"du" (with "dein", "dir"), lowercase',
+      markers: words([
+        "du",
+        "dich",
+        "dir",
+        "dein",
+        "deine",
+        "deinen",
+        "deinem",
+        "deiner",
+        "deines",
+      ]),
+    },
+  },
+  fr: {
+    formal: { address: '"vous"', markers: words(["vous", "votre", "vos"]) },
+    informal: {
+      address: '"tu"',
+      markers: words(["tu", "toi", "te", "ton", "ta", "tes"]),
+    },
+  },
+  es: {
+    formal: { address: '"usted"', markers: words(["usted", "ustedes"]) },
+    informal: {
+      address: '"tú"',
+      markers: words(["tú", "contigo", "tus"]),
+    },
+  },
+  it: {
+    formal: {
+      address: '"Lei"',
+      markers: words(["Lei", "Suo", "Sua", "Suoi", "Sue"], false),
+    },
+    informal: {
+      address: '"tu"',
+      markers: words(["tu", "ti", "tuo", "tua", "tuoi", "tue"]),
+    },
+  },
+  pt: {
+    formal: {
+      address: '"o senhor" / "a senhora"',
+      markers: words(["o senhor", "a senhora", "os senhores", "as senhoras"]),
+    },
+    informal: {
+      address: '"você"',
+      markers: words(["tu", "teu", "tua", "teus", "tuas", "contigo"]),
+    },
+  },
+  nl: {
+    formal: { address: '"u" (with "uw")', markers: words(["u", "uw"]) },
+    informal: {
+      address: '"je" / "jij"',
+      markers: words(["je", "jij", "jou", "jouw"]),
+    },
+  },
+  pl: {
+    formal: {
+      address: '"Pan" / "Pani" / "Państwo"',
+      markers: words(
+        ["Pan", "Pani", "Pana", "Panu", "Państwo", "Państwa"],
+        false,
+      ),
+    },
+    informal: {
+      address: '"ty"',
+      markers: words([
+        "ty",
+        "ciebie",
+        "cię",
+        "tobie",
+        "twój",
+        "twoja",
+        "twoje",
+        "twojego",
+        "twoich",
+      ]),
+    },
+  },
+  ru: {
+    formal: {
+      address: '"Вы"',
+      markers: words([
+        "вы",
+        "вас",
+        "вам",
+        "вами",
+        "ваш",
+        "ваша",
+        "ваше",
+        "ваши",
+      ]),
+    },
+    informal: {
+      address: '"ты"',
+      markers: words([
+        "ты",
+        "тебя",
+        "тебе",
+        "тобой",
+        "твой",
+        "твоя",
+        "твоё",
+        "твои",
+      ]),
+    },
+  },
+  uk: {
+    formal: {
+      address: '"Ви"',
+      markers: words([
+        "ви",
+        "вас",
+        "вам",
+        "вами",
+        "ваш",
+        "ваша",
+        "ваше",
+        "ваші",
+      ]),
+    },
+    informal: {
+      address: '"ти"',
+      markers: words([
+        "ти",
+        "тебе",
+        "тобі",
+        "тобою",
+        "твій",
+        "твоя",
+        "твоє",
+        "твої",
+      ]),
+    },
+  },
+  cs: {
+    formal: {
+      address: '"vy" (vykání)',
+      markers: words(["vy", "vás", "vám", "vámi", "váš", "vaše", "vaši"]),
+    },
+    informal: {
+      address: '"ty" (tykání)',
+      markers: words([
+        "ty",
+        "tě",
+        "tebe",
+        "tobě",
+        "tebou",
+        "tvůj",
+        "tvoje",
+        "tvá",
+        "tvé",
+      ]),
+    },
+  },
+  sv: {
+    formal: {
+      address: '"Ni"',
+      markers: words(["Ni", "Er", "Ert", "Era"], false),
+    },
+    informal: {
+      address: '"du"',
+      markers: words(["du", "dig", "din", "ditt", "dina"]),
+    },
+  },
+  tr: {
+    formal: {
+      address: '"siz"',
+      markers: words(["siz", "sizin", "size", "sizi"]),
+    },
+    informal: {
+      address: '"sen"',
+      markers: words(["sen", "senin", "sana", "seni"]),
+    },
+  },
+  hi: {
+    formal: { address: '"आप"', markers: words(["आप", "आपका", "आपकी", "आपके"]) },
+    informal: {
+      address: '"तुम"',
+      markers: words([
+        "तुम",
+        "तुम्हारा",
+        "तुम्हारी",
+        "तुम्हारे",
+        "तुम्हें",
+        "तू",
+      ]),
+    },
+  },
+  zh: {
+    formal: { address: '"您"', markers: /您/u },
+    informal: { address: '"你"', markers: /你/u },
+  },
+  "zh-TW": {
+    formal: { address: '"您"', markers: /您/u },
+    informal: { address: '"你"', markers: /你/u },
+  },
+  ja: {
+    formal: {
+      address: "polite です/ます form",
+      markers: /(?:です|ます|ません|ました|でした|ください)(?=[。！？!?」]|$)/u,
+    },
+    informal: {
+      address: "plain form (だ/である), no です/ます",
+      markers: /(?:だ|である|だよ|してね|しよう)(?=[。！？!?」]|$)/u,
+    },
+  },
+};
+
+/**
+ * Get the style of a language: the "*" entry merged with its own entry
+ */
+export function resolveLanguageStyle(
+  styles: Record<string, LanguageStyle>,
+  languageCode: string,
+): LanguageStyle {
+  return { ...styles["*"], ...styles[languageCode] };
+}
+
+/**
+ * Check whether `transl8 lint` has formality heuristics for a language
+ */
+export function hasFormalityRules(languageCode: string): boolean {
+  return languageCode in FORMALITY_RULES;
+}
+
+/**
+ * Render a style as system prompt guideline lines. Returns an empty array
+ * when no style is configured.
+ */
+export function createStyleGuidelines(
+  style: LanguageStyle,
+  targetLanguage: LanguageInfo,
+): string[] {
+  const lines: string[] = [];
+
+  if (style.formality) {
+    const rule = FORMALITY_RULES[targetLanguage.code]?.[style.formality];
+    const other = style.formality === "formal" ? "informal" : "formal";
+    lines.push(
+      rule
+        ? `Address the user ${style.formality === "formal" ? "formally" : "informally"} with ${rule.address} — in EVERY string, never switch to the ${other} form`
+        : `Use a consistently ${style.formality} register — never switch to the ${other} form`,
+    );
+  }
+  if (style.pronouns) {
+    lines.push(`Pronouns and form of address: ${style.pronouns}`);
+  }
+  if (style.audience) {
+    lines.push(`Audience: ${style.audience}`);
+  }
+  if (style.voice) {
+    lines.push(`Brand voice: ${style.voice}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Find strings in a language file that use the opposite register of the
+ * configured formality. Heuristic: flags the first giveaway word per string.
+ */
+export function findFormalityIssues(
+  file: TranslationFile,
+  languageCode: string,
+  formality: Formality,
+): FormalityIssue[] {
+  const rules = FORMALITY_RULES[languageCode];
+  if (!rules) return [];
+
+  const other: Formality = formality === "formal" ? "informal" : "formal";
+  const issues: FormalityIssue[] = [];
+
+  for (const key of flattenKeys(file)) {
+    const value = getValueAtPath(file, key);
+    if (typeof value !== "string") continue;
+
+    const match = rules[other].markers.exec(value);
+    if (match) {
+      issues.push({
+        key,
+        value,
+        match: match[0],
+        message: `Uses ${other} address ("${match[0]}") but ${languageCode} is configured as ${formality}`,
+      });
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,247 @@
+/**
+ * Glossary suggestions — mines the source file for words that look like
+ * protected terms (names, identifiers, words translations leave untouched)
+ */
+
+import type { Glossary, TranslationFile } from "./types.js";
+import { escapeRegex, flattenKeys, getValueAtPath } from "./utils.js";
+
+export interface TermSuggestion {
+  term: string;
+  /** Times the term occurs in the source file */
+  occurrences: number;
+  /** Keys whose source value contains the term */
+  keys: string[];
+  /** Why it looks like a protected term */
+  reasons: string[];
+}
+
+/** A word of a source string, with where it starts */
+interface Token {
+  text: string;
+  index: number;
+}
+
+const REASON_CAPITALIZED = "capitalized mid-sentence";
+const REASON_CAMEL_CASE = "CamelCase";
+const REASON_ACRONYM = "acronym";
+const REASON_UNTOUCHED = "left untranslated";
+
+/** Words shorter than this are not checked against existing translations */
+const MIN_UNTOUCHED_LENGTH = 3;
+
+/** Share of existing translations that must keep a word verbatim */
+const UNTOUCHED_RATIO = 0.8;
+
+/**
+ * Match `word` as a whole word, in any script
+ */
+function wordPattern(word: string, flags = "u"): RegExp {
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])${escapeRegex(word)}(?![\\p{L}\\p{N}])`,
+    flags,
+  );
+}
+
+/**
+ * Split a string into words, ignoring ICU argument names and keywords
+ */
+function tokenize(value: string): Token[] {
+  const text = value.replace(
+    /\{\s*[\w.]+\s*(?:,\s*\w+\s*)?(?:,|\})/g,
+    (match) => " ".repeat(match.length),
+  );
+  return [...text.matchAll(/[\p{L}\p{N}][\p{L}\p{M}\p{N}'’-]*/gu)].map((m) => ({
+    text: m[0].replace(/['’-]+$/, ""),
+    index: m.index!,
+  }));
+}
+
+/**
+ * Check whether a word starts a sentence (or the string), where capitals
+ * say nothing about the word
+ */
+function startsSentence(value: string, index: number): boolean {
+  const before = value.slice(0, index).trimEnd();
+  return before === "" || /[.!?:…"“«(\[\-–—]$/.test(before);
+}
+
+function isCapitalized(word: string): boolean {
+  return /^\p{Lu}/u.test(word) && !isAcronym(word);
+}
+
+function isCamelCase(word: string): boolean {
+  return /\p{Ll}\p{Lu}/u.test(word) || /^\p{Ll}+\p{Lu}/u.test(word);
+}
+
+function isAcronym(word: string): boolean {
+  return word.length >= 2 && /^\p{Lu}[\p{Lu}\p{N}]+$/u.test(word);
+}
+
+/**
+ * Check whether a string is written in Title Case ("Recent Activity"), where
+ * capitals say nothing about the words
+ */
+function isTitleCase(tokens: Token[]): boolean {
+  const long = tokens.filter((t) => t.text.length >= 4);
+  return long.length >= 2 && long.every((t) => /^\p{Lu}/u.test(t.text));
+}
+
+/**
+ * Find likely protected terms in a source file: capitalized words and
+ * names not at the start of a sentence (unless the word also appears in
+ * lowercase), CamelCase identifiers, acronyms, and words that existing
+ * translations consistently keep verbatim. Terms already in the glossary
+ * (or its aliases) are skipped. Sorted by number of reasons, then
+ * occurrences.
+ */
+export function suggestGlossaryTerms(
+  sourceFile: TranslationFile,
+  translations: Map<string, TranslationFile>,
+  glossary: Glossary,
+  options: { minCount?: number } = {},
+): TermSuggestion[] {
+  const minCount = options.minCount ?? 2;
+  const known = new Set(
+    glossary.protectedTerms.flatMap((e) =>
+      [e.term, ...(e.aliases || [])].map((t) => t.toLowerCase()),
+    ),
+  );
+
+  const strings = flattenKeys(sourceFile)
+    .map((key) => ({ key, value: getValueAtPath(sourceFile, key) }))
+    .filter((s): s is { key: string; value: string } => {
+      return typeof s.value === "string";
+    });
+
+  // Words that occur in lowercase are ordinary words, even when capitalized
+  const lowercaseWords = new Set<string>();
+  for (const { value } of strings) {
+    for (const { text } of tokenize(value)) {
+      if (text === text.toLowerCase()) lowercaseWords.add(text);
+    }
+  }
+
+  const candidates = new Map<string, TermSuggestion>();
+  const add = (term: string, key: string, reason: string) => {
+    let suggestion = candidates.get(term);
+    if (!suggestion) {
+      suggestion = { term, occurrences: 0, keys: [], reasons: [] };
+      candidates.set(term, suggestion);
+    }
+    if (!suggestion.reasons.includes(reason)) suggestion.reasons.push(reason);
+    if (!suggestion.keys.includes(key)) suggestion.keys.push(key);
+  };
+
+  for (const { key, value } of strings) {
+    const tokens = tokenize(value);
+    const titleCase = isTitleCase(tokens);
+
+    for (let i = 0; i < tokens.length; i++) {
+      const { text, index } = tokens[i];
+      if (isCamelCase(text)) add(text, key, REASON_CAMEL_CASE);
+      if (isAcronym(text)) add(text, key, REASON_ACRONYM);
+
+      if (titleCase || !isCapitalized(text) || startsSentence(value, index)) {
+        continue;
+      }
+      // Join adjacent capitalized words into one name ("Google Drive")
+      let end = i;
+      while (
+        end + 1 < tokens.length &&
+        isCapitalized(tokens[end + 1].text) &&
+        /^ +$/.test(
+          value.slice(
+            tokens[end].index + tokens[end].text.length,
+            tokens[end + 1].index,
+          ),
+        )
+      ) {
+        end++;
+      }
+      const name = value.slice(
+        index,
+        tokens[end].index + tokens[end].text.length,
+      );
+      if (end > i || !lowercaseWords.has(text.toLowerCase())) {
+        add(name, key, REASON_CAPITALIZED);
+      }
+      i = end;
+    }
+  }
+
+  // Words existing translations consistently keep verbatim
+  const kept = new Map<string, { translated: number; kept: number }>();
+  for (const { key, value } of strings) {
+    const words = new Set(
+      tokenize(value)
+        .map((t) => t.text)
+        .filter((w) => w.length >= MIN_UNTOUCHED_LENGTH && /\p{L}/u.test(w)),
+    );
+    for (const file of translations.values()) {
+      const translation = getValueAtPath(file, key);
+      if (typeof translation !== "string" || translation === value) continue;
+      for (const word of words) {
+        const stats = kept.get(word) || { translated: 0, kept: 0 };
+        stats.translated++;
+        if (wordPattern(word).test(translation)) stats.kept++;
+        kept.set(word, stats);
+      }
+    }
+  }
+  for (const [word, stats] of kept) {
+    if (
+      stats.translated >= 2 &&
+      stats.kept / stats.translated >= UNTOUCHED_RATIO
+    ) {
+      for (const { key, value } of strings) {
+        if (tokenize(value).some((t) => t.text === word)) {
+          add(word, key, REASON_UNTOUCHED);
+        }
+      }
+    }
+  }
+
+  // Count occurrences of every candidate across the source
+  for (const suggestion of candidates.values()) {
+    const pattern = wordPattern(suggestion.term, "gu");
+    suggestion.occurrences = strings.reduce(
+      (sum, { value }) => sum + (value.match(pattern)?.length || 0),
+      0,
+    );
+  }
+
+  // A word that only occurs inside a longer name ("Google" in "Google
+  // Drive") is folded into that name
+  for (const word of candidates.values()) {
+    if (word.term.includes(" ")) continue;
+    const pattern = wordPattern(word.term, "gu");
+    for (const name of candidates.values()) {
+      if (!name.term.includes(" ")) continue;
+      const inside = name.term.match(pattern)?.length || 0;
+      if (inside > 0 && inside * name.occurrences >= word.occurrences) {
+        for (const reason of word.reasons) {
+          if (!name.reasons.includes(reason)) name.reasons.push(reason);
+        }
+        candidates.delete(word.term);
+        break;
+      }
+    }
+  }
+
+  const keyOrder = new Map(strings.map(({ key }, i) => [key, i]));
+  for (const suggestion of candidates.values()) {
+    suggestion.keys.sort((a, b) => keyOrder.get(a)! - keyOrder.get(b)!);
+  }
+
+  return [...candidates.values()]
+    .filter(
+      (s) => s.occurrences >= minCount && !known.has(s.term.toLowerCase()),
+    )
+    .sort(
+      (a, b) =>
+        b.reasons.length - a.reasons.length ||
+        b.occurrences - a.occurrences ||
+        a.term.localeCompare(b.term),
+    );
+}
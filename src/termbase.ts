@@ -0,0 +1,694 @@
+/**
+ * Glossary import/export — CSV for spreadsheets and TBX (ISO 30042) for
+ * terminology tools, with merging into glossary.json
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { Glossary, GlossaryEntry } from "./types.js";
+import { colorize, printHeader, printSection } from "./utils.js";
+
+export type GlossaryFormat = "csv" | "tbx";
+
+/** CSV columns that are not language overrides */
+const CSV_FIELDS = ["term", "description", "caseSensitive", "aliases"];
+
+/** Separator of several aliases (or forbidden renderings) in one CSV cell */
+const ALIAS_SEPARATOR = ";";
+
+/** Prefix of CSV columns holding a language's forbidden renderings */
+const FORBIDDEN_PREFIX = "forbidden:";
+
+/** TBX statuses that mark a term as one to avoid */
+const DEPRECATED_STATUS = /^(?:deprecated|superseded)Term(?:-admn-sts)?$/;
+
+/** An override that differs between glossary.json and the imported file */
+export interface GlossaryConflict {
+  term: string;
+  language: string;
+  current: string;
+  imported: string;
+}
+
+export interface GlossaryImportReport {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  /** Terms dropped by replace mode */
+  removed: string[];
+  conflicts: GlossaryConflict[];
+  /** Terms the file repeats (in any case); only their first entry is used */
+  duplicates: string[];
+}
+
+/**
+ * Pick the format from `format`, or from the file extension
+ * (.csv, or .tbx/.xml)
+ */
+export function resolveGlossaryFormat(
+  filePath: string,
+  format?: string,
+): GlossaryFormat {
+  const value = (format || path.extname(filePath).slice(1)).toLowerCase();
+  if (value === "csv") return "csv";
+  if (value === "tbx" || value === "xml") return "tbx";
+  throw new Error(
+    `Unknown glossary format "${value}". Use --format csv or --format tbx.`,
+  );
+}
+
+/**
+ * Default description for an imported term without one
+ */
+function defaultDescription(entry: GlossaryEntry): string {
+  return Object.keys(entry.translations).length > 0
+    ? "Use the approved translation"
+    : `Protected term. Must remain "${entry.term}" in all languages.`;
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Split CSV text into rows of cells (RFC 4180: quoted cells may contain
+ * commas, quotes as "" and line breaks)
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/**
+ * Quote a CSV cell when it contains a separator, quote or line break
+ */
+function formatCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) || value !== value.trim()
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+}
+
+/**
+ * Read a yes/no spreadsheet cell. Empty cells are undefined.
+ */
+function parseBooleanCell(value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (!normalized) return undefined;
+  return ["true", "yes", "y", "1", "x"].includes(normalized);
+}
+
+/**
+ * Split a CSV cell holding several values
+ */
+function splitListCell(value: string): string[] {
+  return value
+    .split(ALIAS_SEPARATOR)
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a glossary CSV: a header row with `term`, `description`,
+ * `caseSensitive` and `aliases` columns, one column per language code
+ * holding that language's override, and `forbidden:<lang>` columns holding
+ * renderings to avoid
+ */
+export function parseGlossaryCsv(text: string): GlossaryEntry[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+
+  const columns = header.map((name) => name.trim());
+  const termIndex = columns.findIndex((c) => c.toLowerCase() === "term");
+  if (termIndex === -1) {
+    throw new Error('Glossary CSV needs a "term" column');
+  }
+  const column = (name: string) =>
+    columns.findIndex((c) => c.toLowerCase() === name.toLowerCase());
+
+  const entries: GlossaryEntry[] = [];
+  for (const row of rows) {
+    const cell = (index: number) => (index >= 0 ? (row[index] ?? "") : "");
+    const term = cell(termIndex).trim();
+    if (!term) continue;
+
+    const translations: Record<string, string> = {};
+    const forbidden: Record<string, string[]> = {};
+    columns.forEach((name, i) => {
+      if (
+        !name ||
+        CSV_FIELDS.some((f) => f.toLowerCase() === name.toLowerCase())
+      ) {
+        return;
+      }
+      if (name.toLowerCase().startsWith(FORBIDDEN_PREFIX)) {
+        const values = splitListCell(cell(i));
+        if (values.length > 0) {
+          forbidden[name.slice(FORBIDDEN_PREFIX.length)] = values;
+        }
+        return;
+      }
+      const value = cell(i).trim();
+      if (value) translations[name] = value;
+    });
+
+    const entry: GlossaryEntry = {
+      term,
+      description: cell(column("description")).trim(),
+      translations,
+    };
+    const caseSensitive = parseBooleanCell(cell(column("caseSensitive")));
+    if (caseSensitive !== undefined) entry.caseSensitive = caseSensitive;
+    const aliases = splitListCell(cell(column("aliases")));
+    if (aliases.length > 0) entry.aliases = aliases;
+    if (Object.keys(forbidden).length > 0) entry.forbidden = forbidden;
+
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Write entries as CSV, one column per language with an override and one
+ * `forbidden:<lang>` column per language with forbidden renderings
+ */
+export function formatGlossaryCsv(entries: GlossaryEntry[]): string {
+  const languages = [
+    ...new Set(entries.flatMap((e) => Object.keys(e.translations))),
+  ].sort();
+  const forbiddenLanguages = [
+    ...new Set(entries.flatMap((e) => Object.keys(e.forbidden || {}))),
+  ].sort();
+
+  const rows = [
+    [
+      ...CSV_FIELDS,
+      ...languages,
+      ...forbiddenLanguages.map((lang) => FORBIDDEN_PREFIX + lang),
+    ],
+  ];
+  for (const entry of entries) {
+    rows.push([
+      entry.term,
+      entry.description,
+      entry.caseSensitive === undefined ? "" : String(entry.caseSensitive),
+      (entry.aliases || []).join(ALIAS_SEPARATOR),
+      ...languages.map((lang) => entry.translations[lang] || ""),
+      ...forbiddenLanguages.map((lang) =>
+        (entry.forbidden?.[lang] || []).join(ALIAS_SEPARATOR),
+      ),
+    ]);
+  }
+
+  return rows.map((row) => row.map(formatCsvCell).join(",")).join("\n") + "\n";
+}
+
+// ============================================================================
+// TBX
+// ============================================================================
+
+/**
+ * Escape text for XML content and attributes
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Turn XML element content into plain text: drop inline tags and CDATA
+ * markers, decode entities
+ */
+function xmlText(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec: string) =>
+      String.fromCodePoint(parseInt(dec, 10)),
+    )
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * Find the content of every `<tag ...>...</tag>` element, with its opening
+ * tag's attributes
+ */
+function findElements(
+  xml: string,
+  tags: string[],
+): { attributes: string; content: string }[] {
+  const pattern = new RegExp(
+    `<(${tags.join("|")})\\b([^>]*)>([\\s\\S]*?)</\\1>`,
+    "g",
+  );
+  return [...xml.matchAll(pattern)].map((m) => ({
+    attributes: m[2],
+    content: m[3],
+  }));
+}
+
+/**
+ * Read an attribute from an opening tag's attribute text
+ */
+function getAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(
+    new RegExp(`(?:^|\\s)${name.replace(":", "\\:")}\\s*=\\s*"([^"]*)"`),
+  );
+  return match ? xmlText(match[1]) : undefined;
+}
+
+/**
+ * Read the terms of a language section, split into preferred and
+ * deprecated ones (an `administrativeStatus` or `normativeAuthorization`
+ * note of deprecatedTerm or supersededTerm)
+ */
+function readSectionTerms(section: string): {
+  terms: string[];
+  deprecated: string[];
+} {
+  const result = { terms: [] as string[], deprecated: [] as string[] };
+  const termSections = findElements(section, ["termSec", "tig", "ntig"]);
+
+  for (const termSection of termSections.length
+    ? termSections.map((t) => t.content)
+    : [section]) {
+    const deprecated = findElements(termSection, ["termNote"]).some(
+      (note) =>
+        ["administrativeStatus", "normativeAuthorization"].includes(
+          getAttribute(note.attributes, "type") || "",
+        ) && DEPRECATED_STATUS.test(xmlText(note.content)),
+    );
+    for (const term of findElements(termSection, ["term"])) {
+      const text = xmlText(term.content);
+      if (text) (deprecated ? result.deprecated : result.terms).push(text);
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse a TBX file. Both TBX v3 (`conceptEntry`/`langSec`/`termSec`) and
+ * TBX v2 (`termEntry`/`langSet`/`tig`) are read. In the source language the
+ * first term becomes the glossary term and the others its aliases; in other
+ * languages the first term becomes the override. Deprecated terms in other
+ * languages become forbidden renderings; in the source language they are
+ * skipped.
+ */
+export function parseGlossaryTbx(
+  xml: string,
+  sourceLanguage: string,
+): GlossaryEntry[] {
+  const baseLanguage = (code: string) => code.toLowerCase().split(/[-_]/)[0];
+  const entries: GlossaryEntry[] = [];
+
+  for (const concept of findElements(xml, ["conceptEntry", "termEntry"])) {
+    const langSections = findElements(concept.content, ["langSec", "langSet"]);
+    let terms: string[] = [];
+    const translations: Record<string, string> = {};
+    const forbidden: Record<string, string[]> = {};
+
+    for (const section of langSections) {
+      const language = getAttribute(section.attributes, "xml:lang");
+      if (!language) continue;
+      const sectionTerms = readSectionTerms(section.content);
+
+      if (baseLanguage(language) === baseLanguage(sourceLanguage)) {
+        if (sectionTerms.terms.length > 0) terms = sectionTerms.terms;
+        continue;
+      }
+      if (sectionTerms.terms.length > 0) {
+        translations[language] = sectionTerms.terms[0];
+      }
+      if (sectionTerms.deprecated.length > 0) {
+        forbidden[language] = sectionTerms.deprecated;
+      }
+    }
+    if (terms.length === 0) continue;
+
+    // The definition may sit on the concept or on the source language
+    const definition = findElements(concept.content, ["descrip"]).find(
+      (d) => getAttribute(d.attributes, "type") === "definition",
+    );
+    const caseSensitive = findElements(concept.content, ["admin"]).find(
+      (a) => getAttribute(a.attributes, "type") === "caseSensitive",
+    );
+
+    const entry: GlossaryEntry = {
+      term: terms[0],
+      description: definition ? xmlText(definition.content) : "",
+      translations,
+    };
+    if (caseSensitive) {
+      entry.caseSensitive = parseBooleanCell(xmlText(caseSensitive.content));
+    }
+    if (terms.length > 1) entry.aliases = terms.slice(1);
+    if (Object.keys(forbidden).length > 0) entry.forbidden = forbidden;
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Write entries as TBX v3 (TBX-Basic dialect). Case sensitivity, which has
+ * no standard data category, is written as `<admin type="caseSensitive">`;
+ * forbidden renderings are deprecated terms.
+ */
+export function formatGlossaryTbx(
+  entries: GlossaryEntry[],
+  sourceLanguage: string,
+): string {
+  const termSec = (term: string, termType?: string, deprecated = false) =>
+    `        <termSec>\n          <term>${escapeXml(term)}</term>${
+      termType
+        ? `\n          <termNote type="termType">${termType}</termNote>`
+        : ""
+    }${
+      deprecated
+        ? `\n          <termNote type="administrativeStatus">deprecatedTerm-admn-sts</termNote>`
+        : ""
+    }\n        </termSec>`;
+
+  const concepts = entries.map((entry, i) => {
+    const lines = [`    <conceptEntry id="c${i + 1}">`];
+    lines.push(
+      `      <descrip type="definition">${escapeXml(entry.description)}</descrip>`,
+    );
+    if (entry.caseSensitive !== undefined) {
+      lines.push(
+        `      <admin type="caseSensitive">${entry.caseSensitive}</admin>`,
+      );
+    }
+    lines.push(`      <langSec xml:lang="${escapeXml(sourceLanguage)}">`);
+    lines.push(
+      termSec(entry.term, entry.aliases?.length ? "fullForm" : undefined),
+    );
+    for (const alias of entry.aliases || []) {
+      lines.push(termSec(alias, "variant"));
+    }
+    lines.push("      </langSec>");
+    const languages = new Set([
+      ...Object.keys(entry.translations),
+      ...Object.keys(entry.forbidden || {}),
+    ]);
+    for (const language of languages) {
+      lines.push(`      <langSec xml:lang="${escapeXml(language)}">`);
+      const translation = entry.translations[language];
+      if (translation) lines.push(termSec(translation));
+      for (const forbidden of entry.forbidden?.[language] || []) {
+        lines.push(termSec(forbidden, undefined, true));
+      }
+      lines.push("      </langSec>");
+    }
+    lines.push("    </conceptEntry>");
+    return lines.join("\n");
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<tbx type="TBX-Basic" style="dca" xml:lang="${escapeXml(sourceLanguage)}" xmlns="urn:iso:std:iso:30042:ed-2">
+  <tbxHeader>
+    <fileDesc>
+      <sourceDesc>
+        <p>Exported by transl8</p>
+      </sourceDesc>
+    </fileDesc>
+  </tbxHeader>
+  <text>
+    <body>
+${concepts.map((c) => c.replace(/^/gm, "  ")).join("\n")}
+    </body>
+  </text>
+</tbx>
+`;
+}
+
+// ============================================================================
+// Import / export
+// ============================================================================
+
+/**
+ * Read glossary entries from a CSV or TBX file
+ */
+export function readGlossaryFile(
+  filePath: string,
+  format: GlossaryFormat,
+  sourceLanguage: string,
+): GlossaryEntry[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+  const text = fs.readFileSync(filePath, "utf-8");
+  return format === "csv"
+    ? parseGlossaryCsv(text)
+    : parseGlossaryTbx(text, sourceLanguage);
+}
+
+/**
+ * Write glossary entries to a CSV or TBX file
+ */
+export function writeGlossaryFile(
+  filePath: string,
+  entries: GlossaryEntry[],
+  format: GlossaryFormat,
+  sourceLanguage: string,
+): void {
+  fs.writeFileSync(
+    filePath,
+    format === "csv"
+      ? formatGlossaryCsv(entries)
+      : formatGlossaryTbx(entries, sourceLanguage),
+    "utf-8",
+  );
+}
+
+/**
+ * Serialize a glossary entry with its object keys sorted, so entries built
+ * in a different field order still compare equal
+ */
+function canonicalJson(entry: GlossaryEntry): string {
+  return JSON.stringify(entry, (_, value: unknown) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1)),
+        )
+      : value,
+  );
+}
+
+/**
+ * Merge imported entries into a glossary. Terms are matched
+ * case-insensitively, and a term the import repeats is taken from its first
+ * entry. In "merge" mode existing terms absent from the import are kept and
+ * matched ones are updated: aliases and forbidden renderings are combined,
+ * minus any that became the override. In "replace" mode absent terms are
+ * removed and matched ones start over from the imported entry. Imported
+ * values win unless `keepExisting`, in which case descriptions and differing
+ * overrides keep their current value. Differing overrides are reported as
+ * conflicts.
+ */
+export function mergeGlossary(
+  glossary: Glossary,
+  imported: GlossaryEntry[],
+  options: { mode: "merge" | "replace"; keepExisting?: boolean },
+): { glossary: Glossary; report: GlossaryImportReport } {
+  const report: GlossaryImportReport = {
+    added: [],
+    updated: [],
+    unchanged: [],
+    removed: [],
+    conflicts: [],
+    duplicates: [],
+  };
+  const find = (entries: GlossaryEntry[], term: string) =>
+    entries.find((e) => e.term.toLowerCase() === term.toLowerCase());
+
+  const entries: GlossaryEntry[] = [];
+  for (const entry of imported) {
+    if (find(entries, entry.term)) report.duplicates.push(entry.term);
+    else entries.push(entry);
+  }
+  const replace = options.mode === "replace";
+
+  const result: GlossaryEntry[] = replace
+    ? []
+    : glossary.protectedTerms.map((e) => ({ ...e }));
+  if (replace) {
+    report.removed = glossary.protectedTerms
+      .filter((e) => !find(entries, e.term))
+      .map((e) => e.term);
+  }
+
+  for (const entry of entries) {
+    const current = find(glossary.protectedTerms, entry.term);
+    if (!current) {
+      result.push({
+        ...entry,
+        description: entry.description || defaultDescription(entry),
+      });
+      report.added.push(entry.term);
+      continue;
+    }
+
+    const base = replace ? entry : current;
+    const translations = { ...base.translations };
+    for (const [language, value] of Object.entries(entry.translations)) {
+      const existing = current.translations[language];
+      if (existing && existing !== value) {
+        report.conflicts.push({
+          term: current.term,
+          language,
+          current: existing,
+          imported: value,
+        });
+        if (options.keepExisting) {
+          translations[language] = existing;
+          continue;
+        }
+      }
+      translations[language] = value;
+    }
+
+    const aliases = [
+      ...new Set([
+        ...((!replace && current.aliases) || []),
+        ...(entry.aliases || []),
+      ]),
+    ];
+    const forbidden: Record<string, string[]> = {};
+    for (const source of replace
+      ? [entry.forbidden]
+      : [current.forbidden, entry.forbidden]) {
+      for (const [language, values] of Object.entries(source || {})) {
+        forbidden[language] = [
+          ...new Set([...(forbidden[language] || []), ...values]),
+        ].filter((value) => value !== translations[language]);
+      }
+    }
+    const merged: GlossaryEntry = {
+      ...base,
+      description:
+        options.keepExisting || !entry.description
+          ? current.description
+          : entry.description,
+      caseSensitive: entry.caseSensitive ?? base.caseSensitive,
+      ...(aliases.length > 0 && { aliases }),
+      translations,
+    };
+    if (Object.values(forbidden).some((values) => values.length > 0)) {
+      merged.forbidden = forbidden;
+    } else {
+      delete merged.forbidden;
+    }
+    if (merged.caseSensitive === undefined) delete merged.caseSensitive;
+
+    const index = result.findIndex((e) => e.term === current.term);
+    if (index >= 0) result[index] = merged;
+    else result.push(merged);
+
+    if (canonicalJson(merged) === canonicalJson(current)) {
+      report.unchanged.push(current.term);
+    } else {
+      report.updated.push(current.term);
+    }
+  }
+
+  return { glossary: { ...glossary, protectedTerms: result }, report };
+}
+
+/**
+ * Print what an import changed and the overrides that differed
+ */
+export function printGlossaryImportReport(
+  report: GlossaryImportReport,
+  options: { keepExisting?: boolean; dryRun?: boolean } = {},
+): void {
+  printHeader(options.dryRun ? "Glossary Import (dry run)" : "Glossary Import");
+
+  console.log("\n" + colorize("Summary:", "bold"));
+  console.log(`  Added: ${colorize(String(report.added.length), "green")}`);
+  console.log(`  Updated: ${colorize(String(report.updated.length), "cyan")}`);
+  console.log(
+    `  Unchanged: ${colorize(String(report.unchanged.length), "dim")}`,
+  );
+  if (report.removed.length > 0) {
+    console.log(`  Removed: ${colorize(String(report.removed.length), "red")}`);
+  }
+  if (report.duplicates.length > 0) {
+    console.log(
+      `  Duplicates: ${colorize(String(report.duplicates.length), "yellow")}`,
+    );
+  }
+  console.log(
+    `  Conflicts: ${colorize(String(report.conflicts.length), report.conflicts.length > 0 ? "yellow" : "green")}`,
+  );
+
+  if (report.conflicts.length > 0) {
+    printSection(
+      `Conflicting overrides (${options.keepExisting ? "kept current" : "imported value wins"})`,
+    );
+    for (const conflict of report.conflicts) {
+      console.log(
+        `  ${colorize("⚠", "yellow")} ${colorize(conflict.term, "cyan")} ${conflict.language}: "${conflict.current}" → "${conflict.imported}"`,
+      );
+    }
+  }
+
+  if (report.removed.length > 0) {
+    printSection(`Removed (${report.removed.length})`);
+    for (const term of report.removed) {
+      console.log(`  ${colorize("✗", "red")} ${term}`);
+    }
+  }
+
+  if (report.duplicates.length > 0) {
+    printSection("Duplicate terms in the file (first entry used)");
+    for (const term of report.duplicates) {
+      console.log(`  ${colorize("⚠", "yellow")} ${term}`);
+    }
+  }
+}
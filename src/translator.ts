@@ -1,8 +1,7 @@
 /**
- * OpenAI Translation Integration
+ * AI Translation Integration
  */
 
-import OpenAI from "openai";
 import type {
   TranslationFile,
   TranslationContext,
@@ -12,6 +11,10 @@ import type {
   SimilarExample,
   LinkedContentPattern,
   Transl8Config,
+  TranslationProvider,
+  ProviderRequest,
+  ProviderResponse,
+  TranslationMemoryKey,
 } from "./types.js";
 import { SUPPORTED_LANGUAGES } from "./types.js";
 import {
@@ -19,24 +22,56 @@ import {
   getValueAtPath,
   flattenKeys,
   getParentSection,
-  hasPlaceholders,
   extractPlaceholders,
   colorize,
   getMessagesDir,
   isHrefKey,
-  getDescriptionParentPath,
-  sectionHasLinks,
+  findLinkedDescription,
   getLinkTextKeyPaths,
   getLinkTextsFromSection,
   loadGlossary,
-  buildGlossaryPromptSection,
   buildTranslationPairIndex,
   findSimilarExamples,
+  removeKeyAtPath,
+  type LinkedDescription,
 } from "./utils.js";
+import { createProvider } from "./providers.js";
+import { withRetry, isFatalError } from "./retry.js";
+import {
+  validateTranslation,
+  validateLength,
+  getRequiredPluralCategories,
+} from "./validation.js";
+import {
+  tryParseMessage,
+  collectArguments,
+  describeArgument,
+  getArgumentKind,
+  measureMessageLength,
+} from "./icu.js";
+import {
+  lookupTranslation,
+  hasTranslation,
+  storeTranslation,
+  saveTranslationMemory,
+} from "./memory.js";
+import { recordUsage } from "./usage.js";
+import { getContextNote } from "./notes.js";
+import { createStyleGuidelines, resolveLanguageStyle } from "./style.js";
+import { loadPromptTemplate, renderPromptTemplate } from "./prompts.js";
+import { getMaxLength } from "./length.js";
+import { getGlossaryPromptSection, validateGlossary } from "./glossary.js";
 import * as path from "path";
 import * as fs from "fs";
+import * as crypto from "crypto";
+
+/**
+ * Bump when prompt wording changes enough that translations made with the
+ * old prompts should no longer be served from the translation memory
+ */
+const PROMPT_VERSION = 1;
 
-let openaiClient: OpenAI | null = null;
+let activeProvider: TranslationProvider | null = null;
 let cachedGlossary: Glossary | null = null;
 let activeConfig: Transl8Config | null = null;
 
@@ -50,14 +85,27 @@ export function setTranslatorConfig(config: Transl8Config): void {
 /**
  * Get the active config, falling back to defaults
  */
-function getConfig(): Transl8Config {
+export function getTranslatorConfig(): Transl8Config {
   if (activeConfig) return activeConfig;
   return {
     messagesDir: "./messages",
     sourceLanguage: "en",
+    provider: "openai",
     model: "gpt-5.2",
+    headers: {},
+    apiMode: "responses",
     concurrency: 50,
+    batchSize: 1,
+    retry: { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000 },
+    validationRetries: 2,
     glossaryPath: "./glossary.json",
+    contextPath: "./context.json",
+    stateDir: "./.transl8",
+    translationMemory: true,
+    prices: {},
+    styles: {},
+    prompts: {},
+    lengthLimits: {},
     linkedContentPatterns: [],
     hrefPatterns: ["*.href"],
   };
@@ -74,20 +122,43 @@ function getGlossary(): Glossary {
 }
 
 /**
- * Initialize OpenAI client
+ * Use a specific provider instance instead of the one named in the config
  */
-export function initOpenAI(apiKey?: string): OpenAI {
-  if (openaiClient) return openaiClient;
+export function setTranslationProvider(provider: TranslationProvider): void {
+  activeProvider = provider;
+}
 
-  const key = apiKey || process.env.OPENAI_API_KEY;
-  if (!key) {
-    throw new Error(
-      "OpenAI API key not found. Please set OPENAI_API_KEY environment variable or pass it as an argument.",
-    );
-  }
+/**
+ * Initialize the translation provider selected by the config
+ */
+export function initProvider(): TranslationProvider {
+  if (activeProvider) return activeProvider;
 
-  openaiClient = new OpenAI({ apiKey: key });
-  return openaiClient;
+  activeProvider = createProvider(getTranslatorConfig());
+  return activeProvider;
+}
+
+/**
+ * Send a request to the active provider, retrying transient failures
+ * according to config.retry
+ */
+export async function completeWithRetry(
+  request: ProviderRequest,
+  options: { verbose?: boolean } = {},
+): Promise<ProviderResponse> {
+  const provider = initProvider();
+  const response = await withRetry(
+    () => provider.complete(request),
+    getTranslatorConfig().retry,
+    { label: request.task.key, verbose: options.verbose },
+  );
+  recordUsage(
+    request.task.targetLanguage,
+    provider.name,
+    request.model,
+    response.usage,
+  );
+  return response;
 }
 
 /**
@@ -133,18 +204,61 @@ export function buildTranslationContext(
     parentSection,
     existingTranslations: translations,
     similarExamples,
+    note: getContextNote(englishFile, keyPath),
+    maxLength: getMaxLength(
+      englishFile,
+      keyPath,
+      getTranslatorConfig().lengthLimits,
+    ),
+  };
+}
+
+/**
+ * Variables every prompt template gets for a target language
+ */
+function getLanguageVariables(
+  targetLanguage: LanguageInfo,
+): Record<string, string> {
+  const { sourceLanguage } = getTranslatorConfig();
+  return {
+    languageName: targetLanguage.name,
+    nativeName: targetLanguage.nativeName,
+    languageCode: targetLanguage.code,
+    sourceLanguageName: getLanguageInfo(sourceLanguage)?.name || sourceLanguage,
   };
 }
 
 /**
- * Create the system prompt for translation
+ * Create the system prompt for translation. Only the glossary terms that
+ * `sourceTexts` (the strings of the request) mention are included.
  */
-function createSystemPrompt(targetLanguage: LanguageInfo): string {
-  const glossary = getGlossary();
-  const glossarySection = buildGlossaryPromptSection(
-    glossary,
+function createSystemPrompt(
+  targetLanguage: LanguageInfo,
+  sourceTexts: string[],
+): string {
+  const glossarySection = getGlossaryPromptSection(
+    getGlossary(),
     targetLanguage.code,
+    sourceTexts,
   );
+  const styleGuidelines = createStyleGuidelines(
+    resolveLanguageStyle(getTranslatorConfig().styles, targetLanguage.code),
+    targetLanguage,
+  );
+
+  const { prompts } = getTranslatorConfig();
+  if (prompts.system) {
+    return renderPromptTemplate("system", prompts.system, {
+      ...getLanguageVariables(targetLanguage),
+      glossarySection: glossarySection.trim(),
+      styleGuidelines: styleGuidelines.map((line) => `- ${line}`).join("\n"),
+    });
+  }
+
+  const toneGuidelines =
+    styleGuidelines.length > 0
+      ? styleGuidelines.map((line) => `   - ${line}`).join("\n")
+      : "   - Maintain the same tone (casual/formal) as the original";
 
   return `You are an expert translator specializing in mobile app and web UI localization.
 
@@ -165,7 +279,7 @@ CRITICAL GUIDELINES:
 
 3. **TRANSLATION QUALITY**:
    - Use natural, idiomatic expressions in ${targetLanguage.name}
-   - Maintain the same tone (casual/formal) as the original
+${toneGuidelines}
    - Keep technical terms, brand names unchanged
    - Consider the UI context from the key path
    - Many languages (especially German) commonly use English loanwords in tech/app contexts — prefer them when they sound more natural than the native equivalent
@@ -178,61 +292,236 @@ CRITICAL GUIDELINES:
 }
 
 /**
- * Create the user prompt for a single translation
+ * Fingerprint of the prompts used for a language, without glossary terms
+ * (those are part of each memory key). Editing a user prompt template also
+ * changes it.
  */
-function createTranslationPrompt(
-  context: TranslationContext,
+function getPromptVersion(targetLanguage: LanguageInfo): string {
+  const { prompts } = getTranslatorConfig();
+  const hash = crypto
+    .createHash("sha256")
+    .update(`${PROMPT_VERSION}\n${createSystemPrompt(targetLanguage, [])}`);
+  if (prompts.translation) {
+    hash.update(`\n${loadPromptTemplate(prompts.translation)}`);
+  }
+  return hash.digest("hex").slice(0, 16);
+}
+
+/**
+ * Describe the placeholders and ICU plural/select structure the translation
+ * must preserve
+ */
+function createPlaceholderNotes(
+  source: string,
   targetLanguage: LanguageInfo,
 ): string {
-  const charCount = context.englishValue.length;
-  const targetMax = Math.round(charCount * 1.2);
+  const nodes = tryParseMessage(source);
+  if (!nodes) {
+    // Not valid ICU; still point out anything that looks like a placeholder
+    const placeholders = extractPlaceholders(source);
+    return placeholders.length > 0
+      ? `⚠️ IMPORTANT: This string contains placeholders that MUST be preserved exactly: ${placeholders.map((p) => `{${p}}`).join(", ")}`
+      : "";
+  }
 
-  let prompt = `Translate to ${targetLanguage.name}:
+  const args = collectArguments(nodes);
+  if (args.length === 0) return "";
 
-"${context.englishValue}"
+  const seen = new Set<string>();
+  const unique = args.filter(
+    (arg) => !seen.has(arg.name) && seen.add(arg.name),
+  );
+  let notes = `⚠️ IMPORTANT: This string contains ICU placeholders that MUST be preserved exactly: ${unique.map(describeArgument).join(", ")}`;
+
+  for (const arg of unique) {
+    if (arg.type === "plural") {
+      const categories = getRequiredPluralCategories(arg, targetLanguage);
+      notes += `\n- {${arg.name}, ${getArgumentKind(arg)}, ...}: keep the argument name, the keyword and exact selectors (=0, =1, ...) unchanged; translate only the text inside the branches; keep # where the number goes. ${targetLanguage.name} needs exactly these plural categories: ${categories.join(", ")} — add or drop branches to match, whatever the English has`;
+    } else if (arg.type === "select") {
+      notes += `\n- {${arg.name}, select, ...}: keep the argument name and the selector keys (${Object.keys(arg.options).join(", ")}) exactly as they are; translate only the text inside the branches`;
+    }
+  }
 
-Key: ${context.key}
-English length: ${charCount} chars — aim for around ${charCount}–${targetMax} chars`;
+  return notes;
+}
+
+/**
+ * Build the per-key hints shared by single and batched prompts: translator
+ * note, similar examples, reference translations and placeholders to preserve.
+ * Each is an empty string when it doesn't apply.
+ */
+function createContextSections(
+  context: TranslationContext,
+  targetLanguage: LanguageInfo,
+): {
+  note: string;
+  similarExamples: string;
+  referenceTranslations: string;
+  placeholderNotes: string;
+} {
+  // Explain where the string is used, so identical text can differ by place
+  const note = context.note ? `Translator note: ${context.note}` : "";
 
   // Add similar already-translated examples for consistency
+  let similarExamples = "";
   if (context.similarExamples && context.similarExamples.length > 0) {
-    prompt += "\n\nSimilar phrases already translated (use these for consistency):";
+    similarExamples = "Similar phrases already translated (use these for consistency):";
     for (const ex of context.similarExamples) {
-      prompt += `\n- "${ex.englishValue}" → "${ex.translatedValue}"`;
+      similarExamples += `\n- "${ex.englishValue}" → "${ex.translatedValue}"`;
     }
   }
 
   // Add existing translations from other languages as examples
+  let referenceTranslations = "";
   const existingLangs = Object.entries(context.existingTranslations);
   if (existingLangs.length > 0) {
-    prompt += "\n\nReference translations from other languages:";
+    referenceTranslations = "Reference translations from other languages:";
     for (const [lang, value] of existingLangs) {
       const langInfo = getLanguageInfo(lang);
-      prompt += `\n- ${langInfo?.name || lang} (${value.length} chars): "${value}"`;
+      referenceTranslations += `\n- ${langInfo?.name || lang} (${value.length} chars): "${value}"`;
     }
   }
 
-  // Note about placeholders
-  if (hasPlaceholders(context.englishValue)) {
-    const placeholders = extractPlaceholders(context.englishValue);
-    prompt += `\n\n⚠️ IMPORTANT: This string contains placeholders that MUST be preserved exactly: ${placeholders.map((p) => `{${p}}`).join(", ")}`;
+  return {
+    note,
+    similarExamples,
+    referenceTranslations,
+    placeholderNotes: createPlaceholderNotes(
+      context.englishValue,
+      targetLanguage,
+    ),
+  };
+}
+
+/**
+ * Join the per-key hints, each preceded by a blank line
+ */
+function createContextNotes(
+  context: TranslationContext,
+  targetLanguage: LanguageInfo,
+): string {
+  return Object.values(createContextSections(context, targetLanguage))
+    .filter(Boolean)
+    .map((section) => `\n\n${section}`)
+    .join("");
+}
+
+/**
+ * Length range to aim for: the source length up to 20% longer, capped at
+ * the key's hard limit. Lengths are measured like the hard limit (see
+ * measureMessageLength), so the window never exceeds it.
+ */
+function getLengthWindow(context: TranslationContext): [number, number] {
+  const charCount = measureMessageLength(context.englishValue);
+  const limit = context.maxLength ?? Infinity;
+  return [
+    Math.min(charCount, limit),
+    Math.min(Math.round(charCount * 1.2), limit),
+  ];
+}
+
+/**
+ * Describe the length a translation should have, including the key's hard
+ * limit when it has one
+ */
+function createLengthGuidance(context: TranslationContext): string {
+  const [targetMin, targetMax] = getLengthWindow(context);
+  let guidance = `English length: ${measureMessageLength(context.englishValue)} chars — aim for around ${targetMin}–${targetMax} chars`;
+  if (context.maxLength) {
+    guidance += `\nHARD LIMIT: at most ${context.maxLength} characters — the text must fit a fixed-size UI element. Use shorter words or rephrase rather than exceed it, but never abbreviate into fragments`;
+  }
+  return guidance;
+}
+
+/**
+ * Create the user prompt for a single translation
+ */
+function createTranslationPrompt(
+  context: TranslationContext,
+  targetLanguage: LanguageInfo,
+): string {
+  const charCount = measureMessageLength(context.englishValue);
+  const [targetMin, targetMax] = getLengthWindow(context);
+
+  const { prompts } = getTranslatorConfig();
+  if (prompts.translation) {
+    return renderPromptTemplate("translation", prompts.translation, {
+      ...getLanguageVariables(targetLanguage),
+      key: context.key,
+      section: context.parentSection,
+      source: context.englishValue,
+      sourceLength: charCount,
+      minLength: targetMin,
+      maxLength: targetMax,
+      hardMaxLength: context.maxLength,
+      ...createContextSections(context, targetLanguage),
+      contextNotes: createContextNotes(context, targetLanguage).trim(),
+    });
   }
 
+  let prompt = `Translate to ${targetLanguage.name}:
+
+"${context.englishValue}"
+
+Key: ${context.key}
+${createLengthGuidance(context)}`;
+
+  prompt += createContextNotes(context, targetLanguage);
+
   prompt += "\n\nRespond with ONLY the translated string, nothing else.";
 
   return prompt;
 }
 
+/**
+ * Create the user prompt for several keys from the same section, answered
+ * as one JSON object mapping key → translation.
+ */
+function createBatchTranslationPrompt(
+  contexts: TranslationContext[],
+  targetLanguage: LanguageInfo,
+): string {
+  let prompt = `Translate each of the following ${contexts.length} UI strings to ${targetLanguage.name}. They come from the same part of the app, so keep terminology consistent between them.`;
+
+  for (const context of contexts) {
+    prompt += `\n\n### Key: ${context.key}
+"${context.englishValue}"
+${createLengthGuidance(context)}`;
+    prompt += createContextNotes(context, targetLanguage);
+  }
+
+  prompt += `\n\nRespond with a JSON object mapping every key above to its translation. Each value must be ONLY the translated string.`;
+
+  return prompt;
+}
+
 /**
  * Create prompt for translating description with inline links.
  * The link texts must appear in the description for parseTextWithLinks to work.
  */
 function createDescriptionWithLinksPrompt(
+  descriptionKey: string,
   description: string,
   linkTexts: string[],
   targetLanguage: LanguageInfo,
 ): string {
   const linkList = linkTexts.map((t) => `"${t}"`).join(", ");
+
+  const { prompts } = getTranslatorConfig();
+  if (prompts.descriptionWithLinks) {
+    return renderPromptTemplate(
+      "descriptionWithLinks",
+      prompts.descriptionWithLinks,
+      {
+        ...getLanguageVariables(targetLanguage),
+        key: descriptionKey,
+        source: description,
+        linkTexts: linkList,
+        linkCount: linkTexts.length,
+      },
+    );
+  }
+
   return `Translate this description to ${targetLanguage.name}. It contains ${linkTexts.length} link(s) with anchor text: ${linkList}.
 
 CRITICAL: Each link anchor must appear as an EXACT substring in your translated description. Translate each anchor phrase and use that EXACT phrase where the link appears in the description.
@@ -240,21 +529,145 @@ CRITICAL: Each link anchor must appear as an EXACT substring in your translated
 Return valid JSON only:
 {"description": "your full translated description", "linkTexts": ["translated anchor 1", "translated anchor 2", ...]}
 
-The linkTexts array must be in the same order as the anchors above. Each linkText must appear verbatim in the description.`;
+The linkTexts array must be in the same order as the anchors above. Each linkText must appear verbatim in the description.
+
+Description to translate:
+"${description}"`;
 }
 
 /**
- * Translate a description and its link texts together so link text appears in description
+ * Build a result for a key that could not be translated
  */
-export async function translateDescriptionWithLinks(
+function failedResult(
+  key: string,
+  originalValue: string,
+  targetLanguage: string,
+  error: unknown,
+): TranslationResult {
+  return {
+    key,
+    originalValue,
+    translatedValue: "",
+    targetLanguage,
+    status: "failed",
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Build the request translateString() sends for a single key
+ */
+function buildStringRequest(
+  context: TranslationContext,
+  targetLanguage: LanguageInfo,
+): ProviderRequest {
+  return {
+    model: getTranslatorConfig().model,
+    instructions: createSystemPrompt(targetLanguage, [context.englishValue]),
+    input: createTranslationPrompt(context, targetLanguage),
+    task: {
+      type: "string",
+      key: context.key,
+      source: context.englishValue,
+      targetLanguage: targetLanguage.code,
+    },
+  };
+}
+
+/**
+ * Build the request translateStringGroup() sends for several keys
+ */
+function buildBatchRequest(
+  contexts: TranslationContext[],
+  targetLanguage: LanguageInfo,
+): ProviderRequest {
+  const keys = contexts.map((c) => c.key);
+  return {
+    model: getTranslatorConfig().model,
+    instructions: createSystemPrompt(
+      targetLanguage,
+      contexts.map((c) => c.englishValue),
+    ),
+    input: createBatchTranslationPrompt(contexts, targetLanguage),
+    task: {
+      type: "batch",
+      key: contexts[0].parentSection,
+      items: contexts.map((c) => ({ key: c.key, source: c.englishValue })),
+      targetLanguage: targetLanguage.code,
+    },
+    responseFormat: {
+      name: "translations",
+      schema: {
+        type: "object",
+        properties: Object.fromEntries(
+          keys.map((key) => [key, { type: "string" }]),
+        ),
+        required: keys,
+        additionalProperties: false,
+      },
+    },
+  };
+}
+
+/**
+ * Build the request translateDescriptionWithLinks() sends
+ */
+function buildDescriptionWithLinksRequest(
   descriptionKey: string,
   description: string,
   linkTexts: string[],
   targetLanguage: LanguageInfo,
+): ProviderRequest {
+  return {
+    model: getTranslatorConfig().model,
+    instructions: createSystemPrompt(targetLanguage, [
+      description,
+      ...linkTexts,
+    ]),
+    input: createDescriptionWithLinksPrompt(
+      descriptionKey,
+      description,
+      linkTexts,
+      targetLanguage,
+    ),
+    task: {
+      type: "descriptionWithLinks",
+      key: descriptionKey,
+      source: description,
+      linkTexts,
+      targetLanguage: targetLanguage.code,
+    },
+  };
+}
+
+/**
+ * Translate a description and its link texts together so link text appears in description.
+ * `linked` is the description key resolved to its linked content pattern.
+ * The description and each link text are held to their keys' length limits
+ * and the glossary: too long or off-glossary values are re-prompted up to
+ * `validationRetries` times, then kept as fallbacks.
+ */
+export async function translateDescriptionWithLinks(
+  sourceFile: TranslationFile,
+  linked: LinkedDescription,
+  description: string,
+  linkTexts: string[],
+  targetLanguage: LanguageInfo,
   options: { verbose?: boolean } = {},
 ): Promise<TranslationResult[]> {
-  const client = initOpenAI();
-  const config = getConfig();
+  const config = getTranslatorConfig();
+  const descriptionKey = linked.key;
+  const linkKeys = getLinkTextKeyPaths(
+    linked.parentPath,
+    linkTexts.length,
+    linked.pattern,
+  );
+  // The description first, then its link texts in order
+  const keys = [descriptionKey, ...linkKeys];
+  const sources = [description, ...linkTexts];
+  const maxLengths = keys.map((key) =>
+    getMaxLength(sourceFile, key, config.lengthLimits),
+  );
 
   if (options.verbose) {
     console.log(
@@ -262,131 +675,302 @@ export async function translateDescriptionWithLinks(
     );
   }
 
-  const response = await client.responses.create({
-    model: config.model,
-    instructions: createSystemPrompt(targetLanguage),
-    input: `${createDescriptionWithLinksPrompt(
-      description,
-      linkTexts,
-      targetLanguage,
-    )}\n\nDescription to translate:\n"${description}"`,
-  });
-
-  const raw = response.output_text?.trim() || "";
-  const results: TranslationResult[] = [];
+  const request = buildDescriptionWithLinksRequest(
+    descriptionKey,
+    description,
+    linkTexts,
+    targetLanguage,
+  );
+  let input = request.input;
 
-  try {
-    const parsed = JSON.parse(raw) as {
-      description?: string;
-      linkTexts?: string[];
-    };
+  for (let attempt = 0; ; attempt++) {
+    let raw: string;
+    try {
+      const response = await completeWithRetry({ ...request, input }, options);
+      raw = response.text;
+    } catch (error) {
+      if (isFatalError(error)) throw error;
+      console.error(
+        `Failed to translate ${descriptionKey}: ${error instanceof Error ? error.message : error}`,
+      );
+      return keys.map((key, i) =>
+        failedResult(key, sources[i], targetLanguage.code, error),
+      );
+    }
 
-    if (typeof parsed.description === "string") {
-      results.push({
-        key: descriptionKey,
-        originalValue: description,
-        translatedValue: parsed.description,
-        targetLanguage: targetLanguage.code,
-      });
+    let parsed: { description?: unknown; linkTexts?: unknown } | null = null;
+    try {
+      parsed = JSON.parse(raw) as {
+        description?: unknown;
+        linkTexts?: unknown;
+      };
+    } catch {
+      parsed = null;
     }
 
-    if (Array.isArray(parsed.linkTexts)) {
-      const parentPath = getParentSection(descriptionKey);
-      const patterns = config.linkedContentPatterns;
-      const linksKey =
-        patterns.length > 0 ? patterns[0].linksKey : "links";
-      const textField =
-        patterns.length > 0 ? patterns[0].linkTextField : "text";
-
-      for (
-        let i = 0;
-        i < linkTexts.length && i < parsed.linkTexts.length;
-        i++
-      ) {
-        const linkKey = `${parentPath}.${linksKey}.${i}.${textField}`;
-        results.push({
-          key: linkKey,
-          originalValue: linkTexts[i],
-          translatedValue: parsed.linkTexts[i],
-          targetLanguage: targetLanguage.code,
-        });
-      }
+    if (
+      !parsed ||
+      typeof parsed.description !== "string" ||
+      validateTranslation(description, parsed.description, targetLanguage)
+        .length > 0
+    ) {
+      break;
     }
-  } catch {
-    if (options.verbose) {
-      console.warn(
-        colorize(
-          `  ⚠ Failed to parse description+links JSON for ${descriptionKey}, falling back to description-only translation`,
-          "yellow",
+
+    const translatedLinks = Array.isArray(parsed.linkTexts)
+      ? parsed.linkTexts
+      : [];
+    // null where a link text is missing from the response or invalid
+    const values: (string | null)[] = [
+      parsed.description,
+      ...linkTexts.map((text, i) => {
+        const value = translatedLinks[i];
+        return typeof value === "string" &&
+          value &&
+          validateTranslation(text, value, targetLanguage).length === 0
+          ? value
+          : null;
+      }),
+    ];
+    const lengthProblems = values.map((value, i) =>
+      value === null ? [] : validateLength(value, maxLengths[i]),
+    );
+    const glossaryProblems = values.map((value, i) =>
+      value === null
+        ? []
+        : validateGlossary(
+            getGlossary(),
+            sources[i],
+            value,
+            targetLanguage.code,
+          ),
+    );
+
+    if (
+      attempt < config.validationRetries &&
+      values.some(
+        (_, i) =>
+          lengthProblems[i].length > 0 || glossaryProblems[i].length > 0,
+      )
+    ) {
+      const problems = values.flatMap((_, i) =>
+        [...lengthProblems[i], ...glossaryProblems[i]].map((problem) =>
+          i === 0
+            ? `Description: ${problem}`
+            : `Link text ${i} ("${values[i]}"): ${problem}`,
         ),
       );
+      if (options.verbose) {
+        console.warn(
+          colorize(
+            `  ⚠ Re-prompting for "${descriptionKey}": ${problems.join("; ")}`,
+            "yellow",
+          ),
+        );
+      }
+      input = createCorrectionPrompt(
+        request.input,
+        raw,
+        problems,
+        "Fix them and respond with ONLY the corrected JSON in the same format, nothing else.",
+      );
+      continue;
     }
+
+    return keys.map((key, i): TranslationResult => {
+      const value = values[i];
+      if (value === null) {
+        return failedResult(
+          key,
+          sources[i],
+          targetLanguage.code,
+          "Link text missing from response or invalid",
+        );
+      }
+      // Too long or off-glossary but otherwise valid: keep it and let
+      // analyze / glossary check report it
+      const issues = [...glossaryProblems[i]];
+      if (lengthProblems[i].length > 0) {
+        issues.unshift(
+          `Over the length limit (${measureMessageLength(value)}/${maxLengths[i]} chars)`,
+        );
+      }
+      return {
+        key,
+        originalValue: sources[i],
+        translatedValue: value,
+        targetLanguage: targetLanguage.code,
+        ...(issues.length > 0
+          ? { status: "fallback", error: issues.join("; ") }
+          : { status: "ok" }),
+      };
+    });
+  }
+
+  const results: TranslationResult[] = [];
+
+  if (options.verbose) {
+    console.warn(
+      colorize(
+        `  ⚠ Invalid description+links response for ${descriptionKey}, falling back to description-only translation`,
+        "yellow",
+      ),
+    );
+  }
+
+  try {
     const fallback = await translateString(
       {
         key: descriptionKey,
         englishValue: description,
         parentSection: getParentSection(descriptionKey),
         existingTranslations: {},
+        maxLength: maxLengths[0],
       },
       targetLanguage,
       options,
     );
-    results.push(fallback);
+    results.push({
+      ...fallback,
+      status: "fallback",
+      error: "Description+links response was not valid JSON or failed validation",
+    });
+  } catch (error) {
+    if (isFatalError(error)) throw error;
+    results.push(
+      failedResult(descriptionKey, description, targetLanguage.code, error),
+    );
   }
 
+  // Link texts stay untranslated so the next run picks them up
+  linkKeys.forEach((linkKey, i) => {
+    results.push(
+      failedResult(
+        linkKey,
+        linkTexts[i],
+        targetLanguage.code,
+        "Description was translated without its links",
+      ),
+    );
+  });
+
   return results;
 }
 
 /**
- * Translate a single string
+ * Create a follow-up prompt asking the model to fix a translation that
+ * failed validation
+ */
+function createCorrectionPrompt(
+  originalPrompt: string,
+  previousTranslation: string,
+  problems: string[],
+  reply = "Fix them and respond with ONLY the corrected translation, nothing else.",
+): string {
+  return `${originalPrompt}
+
+Your previous translation was:
+"${previousTranslation}"
+
+It has these problems:
+${problems.map((p) => `- ${p}`).join("\n")}
+
+${reply}`;
+}
+
+/**
+ * Translate a single string. The result is validated against the source, the
+ * key's length limit and the glossary, and the model is re-prompted with the
+ * specific problems up to `validationRetries` times; if it still doesn't
+ * pass, this throws. A translation that is only too long or off-glossary is
+ * kept as a fallback.
  */
 export async function translateString(
   context: TranslationContext,
   targetLanguage: LanguageInfo,
   options: { verbose?: boolean } = {},
 ): Promise<TranslationResult> {
-  const client = initOpenAI();
-  const config = getConfig();
+  const config = getTranslatorConfig();
 
   if (options.verbose) {
     console.log(colorize(`  Translating: ${context.key}`, "dim"));
   }
 
-  const response = await client.responses.create({
-    model: config.model,
-    instructions: createSystemPrompt(targetLanguage),
-    input: createTranslationPrompt(context, targetLanguage),
-  });
+  const request = buildStringRequest(context, targetLanguage);
+  let input = request.input;
 
-  let translatedValue = response.output_text?.trim() || "";
+  for (let attempt = 0; ; attempt++) {
+    const response = await completeWithRetry({ ...request, input }, options);
 
-  // Clean up the translation
-  translatedValue = cleanupTranslation(translatedValue, context.englishValue);
+    // Clean up the translation
+    const translatedValue = cleanupTranslation(
+      response.text,
+      context.englishValue,
+    );
 
-  // Validate placeholders are preserved (skip logging in hot path unless verbose)
-  if (options.verbose && hasPlaceholders(context.englishValue)) {
-    const originalPlaceholders = extractPlaceholders(context.englishValue);
-    const translatedPlaceholders = extractPlaceholders(translatedValue);
+    if (!translatedValue) {
+      throw new Error("Provider returned an empty translation");
+    }
 
-    const missing = originalPlaceholders.filter(
-      (p) => !translatedPlaceholders.includes(p),
+    const problems = validateTranslation(
+      context.englishValue,
+      translatedValue,
+      targetLanguage,
+    );
+    const lengthProblems = validateLength(translatedValue, context.maxLength);
+    const glossaryProblems = validateGlossary(
+      getGlossary(),
+      context.englishValue,
+      translatedValue,
+      targetLanguage.code,
     );
-    if (missing.length > 0) {
+    if (
+      problems.length === 0 &&
+      lengthProblems.length === 0 &&
+      glossaryProblems.length === 0
+    ) {
+      return {
+        key: context.key,
+        originalValue: context.englishValue,
+        translatedValue,
+        targetLanguage: targetLanguage.code,
+        status: "ok",
+      };
+    }
+
+    if (attempt >= config.validationRetries) {
+      if (problems.length > 0) {
+        throw new Error(`Invalid translation: ${problems.join("; ")}`);
+      }
+      // Too long or off-glossary but otherwise valid: keep it and let
+      // analyze / glossary check report it
+      const issues = [...glossaryProblems];
+      if (lengthProblems.length > 0) {
+        issues.unshift(
+          `Over the length limit (${measureMessageLength(translatedValue)}/${context.maxLength} chars)`,
+        );
+      }
+      return {
+        key: context.key,
+        originalValue: context.englishValue,
+        translatedValue,
+        targetLanguage: targetLanguage.code,
+        status: "fallback",
+        error: issues.join("; "),
+      };
+    }
+    problems.push(...lengthProblems, ...glossaryProblems);
+
+    if (options.verbose) {
       console.warn(
         colorize(
-          `  ⚠ Warning: Missing placeholders in translation for "${context.key}": ${missing.map((p) => `{${p}}`).join(", ")}`,
+          `  ⚠ Re-prompting for "${context.key}": ${problems.join("; ")}`,
           "yellow",
         ),
       );
     }
+    input = createCorrectionPrompt(request.input, translatedValue, problems);
   }
-
-  return {
-    key: context.key,
-    originalValue: context.englishValue,
-    translatedValue,
-    targetLanguage: targetLanguage.code,
-  };
 }
 
 /**
@@ -429,60 +1013,222 @@ function cleanupTranslation(translated: string, original: string): string {
 }
 
 /**
- * Translate multiple strings in batch using semaphore for maximum throughput
+ * Translate several keys in one request with a JSON schema response.
+ * Returns only the keys that came back as strings; the caller handles the rest.
  */
-export async function translateBatch(
+export async function translateStringGroup(
+  contexts: TranslationContext[],
+  targetLanguage: LanguageInfo,
+  options: { verbose?: boolean } = {},
+): Promise<Map<string, TranslationResult>> {
+  const keys = contexts.map((c) => c.key);
+
+  if (options.verbose) {
+    console.log(
+      colorize(`  Translating batch of ${keys.length}: ${keys.join(", ")}`, "dim"),
+    );
+  }
+
+  const response = await completeWithRetry(
+    buildBatchRequest(contexts, targetLanguage),
+    options,
+  );
+
+  const results = new Map<string, TranslationResult>();
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(response.text) as Record<string, unknown>;
+  } catch {
+    if (options.verbose) {
+      console.warn(
+        colorize(
+          `  ⚠ Failed to parse batch JSON for ${contexts[0].parentSection}, falling back to per-key translation`,
+          "yellow",
+        ),
+      );
+    }
+    return results;
+  }
+
+  for (const context of contexts) {
+    const value = parsed[context.key];
+    if (typeof value !== "string" || value.trim() === "") continue;
+    const translatedValue = cleanupTranslation(
+      value.trim(),
+      context.englishValue,
+    );
+    // Invalid entries are left out and re-translated (with re-prompting) one by one
+    if (
+      validateTranslation(context.englishValue, translatedValue, targetLanguage)
+        .length > 0 ||
+      validateLength(translatedValue, context.maxLength).length > 0 ||
+      validateGlossary(
+        getGlossary(),
+        context.englishValue,
+        translatedValue,
+        targetLanguage.code,
+      ).length > 0
+    ) {
+      continue;
+    }
+    results.set(context.key, {
+      key: context.key,
+      originalValue: context.englishValue,
+      translatedValue,
+      targetLanguage: targetLanguage.code,
+      status: "ok",
+    });
+  }
+
+  if (options.verbose && results.size < contexts.length) {
+    const missing = keys.filter((k) => !results.has(k));
+    console.warn(
+      colorize(
+        `  ⚠ Batch response missing or invalid for ${missing.length} key(s), retrying individually: ${missing.join(", ")}`,
+        "yellow",
+      ),
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Split context indices into batches of keys sharing a parent section,
+ * each at most `batchSize` long. Order within a section is preserved.
+ * A custom translation template describes a single key, so it disables
+ * batching.
+ */
+function groupContextsForBatching(
+  contexts: TranslationContext[],
+  batchSize: number,
+): number[][] {
+  if (batchSize <= 1 || getTranslatorConfig().prompts.translation) {
+    return contexts.map((_, i) => [i]);
+  }
+
+  const bySection = new Map<string, number[]>();
+  contexts.forEach((context, i) => {
+    const group = bySection.get(context.parentSection) || [];
+    group.push(i);
+    bySection.set(context.parentSection, group);
+  });
+
+  const jobs: number[][] = [];
+  for (const indices of bySection.values()) {
+    for (let i = 0; i < indices.length; i += batchSize) {
+      jobs.push(indices.slice(i, i + batchSize));
+    }
+  }
+  return jobs;
+}
+
+/**
+ * Translate multiple strings in batch using semaphore for maximum throughput.
+ * With `batchSize` > 1, keys from the same section share one request; keys
+ * missing from a batched response are retried one at a time.
+ */
+export async function translateBatch(
   contexts: TranslationContext[],
   targetLanguage: LanguageInfo,
   options: {
     verbose?: boolean;
     concurrency?: number;
+    batchSize?: number;
     onProgress?: (completed: number, total: number) => void;
   } = {},
 ): Promise<TranslationResult[]> {
-  const config = getConfig();
+  const config = getTranslatorConfig();
   const {
     concurrency = config.concurrency,
+    batchSize = config.batchSize,
     verbose = false,
     onProgress,
   } = options;
 
+  const jobs = groupContextsForBatching(contexts, batchSize);
   let completed = 0;
+  let finishedJobs = 0;
   let running = 0;
   let index = 0;
   const results: TranslationResult[] = new Array(contexts.length);
 
-  return new Promise((resolve) => {
+  const runJob = async (job: number[]): Promise<void> => {
+    let batched = new Map<string, TranslationResult>();
+    if (job.length > 1) {
+      try {
+        batched = await translateStringGroup(
+          job.map((i) => contexts[i]),
+          targetLanguage,
+          { verbose },
+        );
+      } catch (error) {
+        if (isFatalError(error)) throw error;
+        if (verbose) {
+          console.warn(
+            colorize(
+              `  ⚠ Batch request failed (${error instanceof Error ? error.message : error}), falling back to per-key translation`,
+              "yellow",
+            ),
+          );
+        }
+      }
+    }
+
+    for (const i of job) {
+      const context = contexts[i];
+      try {
+        results[i] =
+          batched.get(context.key) ||
+          (await translateString(context, targetLanguage, { verbose }));
+      } catch (error) {
+        if (isFatalError(error)) throw error;
+        // Retries exhausted or non-retryable: record the failure so the key
+        // is left out of the target file instead of saved as English
+        console.error(
+          `Failed to translate ${context.key}: ${error instanceof Error ? error.message : error}`,
+        );
+        results[i] = failedResult(
+          context.key,
+          context.englishValue,
+          targetLanguage.code,
+          error,
+        );
+      }
+
+      completed++;
+      if (onProgress) {
+        onProgress(completed, contexts.length);
+      }
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    if (jobs.length === 0) {
+      resolve(results);
+      return;
+    }
+
+    // A fatal error (bad API key, unknown model) stops scheduling new jobs;
+    // the run rejects once in-flight jobs settle
+    let fatalError: unknown = null;
+
     const runNext = () => {
-      while (running < concurrency && index < contexts.length) {
-        const currentIndex = index++;
+      while (!fatalError && running < concurrency && index < jobs.length) {
+        const job = jobs[index++];
         running++;
 
-        translateString(contexts[currentIndex], targetLanguage, { verbose })
-          .then((result) => {
-            results[currentIndex] = result;
-          })
+        runJob(job)
           .catch((error) => {
-            // On error, use original value as fallback
-            console.error(
-              `Failed to translate ${contexts[currentIndex].key}: ${error.message}`,
-            );
-            results[currentIndex] = {
-              key: contexts[currentIndex].key,
-              originalValue: contexts[currentIndex].englishValue,
-              translatedValue: contexts[currentIndex].englishValue, // fallback
-              targetLanguage: targetLanguage.code,
-            };
+            fatalError = fatalError || error;
           })
           .finally(() => {
             running--;
-            completed++;
-
-            if (onProgress) {
-              onProgress(completed, contexts.length);
-            }
+            finishedJobs++;
 
-            if (completed === contexts.length) {
+            if (fatalError) {
+              if (running === 0) reject(fatalError);
+            } else if (finishedJobs === jobs.length) {
               resolve(results);
             } else {
               runNext();
@@ -497,33 +1243,106 @@ export async function translateBatch(
 }
 
 /**
- * Translate missing keys in a target language file
+ * Translation memory key for a context translated with the current config
  */
-export async function translateMissingKeys(
-  missingKeys: string[],
-  targetLanguage: string,
-  options: {
-    verbose?: boolean;
-    dryRun?: boolean;
-  } = {},
+function getMemoryKey(
+  context: TranslationContext,
+  targetLanguage: LanguageInfo,
+  promptVersion: string,
+): TranslationMemoryKey {
+  const config = getTranslatorConfig();
+  return {
+    source: context.englishValue,
+    language: targetLanguage.code,
+    provider: config.provider,
+    model: config.model,
+    promptVersion,
+    note: context.note,
+    maxLength: context.maxLength,
+    glossary:
+      getGlossaryPromptSection(getGlossary(), targetLanguage.code, [
+        context.englishValue,
+      ]) || undefined,
+  };
+}
+
+/**
+ * Translate contexts like translateBatch, but serve source texts already in
+ * the translation memory without a provider request and remember new
+ * successful translations
+ */
+async function translateWithMemory(
+  contexts: TranslationContext[],
+  targetLanguage: LanguageInfo,
+  options: Parameters<typeof translateBatch>[2] = {},
 ): Promise<TranslationResult[]> {
-  const langInfo = getLanguageInfo(targetLanguage);
-  if (!langInfo) {
-    throw new Error(
-      `Unsupported language: ${targetLanguage}. Use --list-languages to see supported languages.`,
+  const config = getTranslatorConfig();
+  if (!config.translationMemory) {
+    return translateBatch(contexts, targetLanguage, options);
+  }
+
+  const promptVersion = getPromptVersion(targetLanguage);
+  const memoryKey = (context: TranslationContext) =>
+    getMemoryKey(context, targetLanguage, promptVersion);
+
+  const results: TranslationResult[] = new Array(contexts.length);
+  const pending: number[] = [];
+  contexts.forEach((context, i) => {
+    const translation = lookupTranslation(memoryKey(context));
+    if (translation === undefined) {
+      pending.push(i);
+      return;
+    }
+    results[i] = {
+      key: context.key,
+      originalValue: context.englishValue,
+      translatedValue: translation,
+      targetLanguage: targetLanguage.code,
+      status: "cached",
+    };
+  });
+
+  const cachedCount = contexts.length - pending.length;
+  if (cachedCount > 0) {
+    console.log(
+      colorize(
+        `  ${cachedCount} key(s) reused from the translation memory`,
+        "dim",
+      ),
     );
   }
 
-  const config = getConfig();
-  const messagesDir = getMessagesDir();
+  try {
+    const translated = await translateBatch(
+      pending.map((i) => contexts[i]),
+      targetLanguage,
+      options,
+    );
+    translated.forEach((result, j) => {
+      const context = contexts[pending[j]];
+      results[pending[j]] = result;
+      if (result.status === "ok") {
+        storeTranslation(memoryKey(context), result.translatedValue);
+      }
+    });
+  } finally {
+    // Keep hit counts even when a fatal error aborts the run
+    saveTranslationMemory();
+  }
 
-  // Load English source and existing translations
-  const englishFile = loadTranslationFile(
-    path.join(messagesDir, `${config.sourceLanguage}.json`),
-  );
-  const existingTranslations = new Map<string, TranslationFile>();
+  return results;
+}
 
-  // Load all existing translation files as context (except source and target language)
+/**
+ * Load every other translation file (except source and target language) to
+ * show the model as reference translations
+ */
+export function loadReferenceTranslations(
+  targetLanguage: string,
+): Map<string, TranslationFile> {
+  const config = getTranslatorConfig();
+  const messagesDir = getMessagesDir();
+  const existingTranslations = new Map<string, TranslationFile>();
   try {
     const files = fs
       .readdirSync(messagesDir)
@@ -544,29 +1363,232 @@ export async function translateMissingKeys(
   } catch {
     // Directory read failed, continue without context
   }
+  return existingTranslations;
+}
 
-  // Load the target language file to build the similar-example index
-  let pairIndex:
-    | Map<string, { english: string; translated: string; key: string }>
-    | undefined;
-  const targetFilePath = path.join(messagesDir, `${targetLanguage}.json`);
-  if (fs.existsSync(targetFilePath)) {
-    try {
-      const targetFile = loadTranslationFile(targetFilePath);
-      pairIndex = buildTranslationPairIndex(englishFile, targetFile);
-      if (pairIndex.size > 0) {
-        console.log(
-          colorize(
-            `  Using ${pairIndex.size} existing translations as similarity examples`,
-            "dim",
-          ),
-        );
-      }
-    } catch {
-      // Failed to load target file, continue without examples
+/**
+ * Build the similar-example index from the target language file, if it exists
+ */
+function loadTargetPairIndex(
+  englishFile: TranslationFile,
+  targetLanguage: string,
+):
+  | Map<string, { english: string; translated: string; key: string }>
+  | undefined {
+  const targetFilePath = path.join(getMessagesDir(), `${targetLanguage}.json`);
+  if (!fs.existsSync(targetFilePath)) return undefined;
+  try {
+    return buildTranslationPairIndex(
+      englishFile,
+      loadTranslationFile(targetFilePath),
+    );
+  } catch {
+    // Failed to load target file, continue without examples
+    return undefined;
+  }
+}
+
+/**
+ * Split string keys by how they get translated: href keys are copied as-is,
+ * descriptions with links are translated together with their link texts,
+ * and everything else is translated normally
+ */
+function classifyKeys(
+  englishFile: TranslationFile,
+  stringKeys: string[],
+): {
+  hrefKeys: string[];
+  descriptionsWithLinks: LinkedDescription[];
+  normalKeys: string[];
+} {
+  const config = getTranslatorConfig();
+
+  const hrefKeys = stringKeys.filter((key) =>
+    isHrefKey(key, config.hrefPatterns),
+  );
+  const descriptionsWithLinks = stringKeys
+    .map((key) =>
+      findLinkedDescription(englishFile, key, config.linkedContentPatterns),
+    )
+    .filter((linked): linked is LinkedDescription => linked !== null);
+
+  const linkedKeys = new Set<string>();
+  for (const linked of descriptionsWithLinks) {
+    linkedKeys.add(linked.key);
+    const linkTexts = getLinkTextsFromSection(
+      englishFile,
+      linked.parentPath,
+      linked.pattern,
+    );
+    for (const kp of getLinkTextKeyPaths(
+      linked.parentPath,
+      linkTexts.length,
+      linked.pattern,
+    )) {
+      linkedKeys.add(kp);
     }
   }
 
+  const normalKeys = stringKeys.filter(
+    (key) => !isHrefKey(key, config.hrefPatterns) && !linkedKeys.has(key),
+  );
+
+  return { hrefKeys, descriptionsWithLinks, normalKeys };
+}
+
+/**
+ * Build every request a translation run would send, without sending any.
+ * Translates `keys` (all source keys when omitted) the way
+ * translateMissingKeys/createFullTranslation would: href keys are copied and
+ * keys found in the translation memory need no request. Validation
+ * re-prompts and retries can't be known in advance and aren't included.
+ */
+export function planTranslationRequests(
+  targetLanguage: string,
+  keys?: string[],
+): { requests: ProviderRequest[]; cachedKeys: number; copiedKeys: number } {
+  const langInfo = getLanguageInfo(targetLanguage);
+  if (!langInfo) {
+    throw new Error(`Unsupported language: ${targetLanguage}`);
+  }
+
+  const config = getTranslatorConfig();
+  const englishFile = loadTranslationFile(
+    path.join(getMessagesDir(), `${config.sourceLanguage}.json`),
+  );
+  const stringKeys = (keys || flattenKeys(englishFile)).filter(
+    (key) => typeof getValueAtPath(englishFile, key) === "string",
+  );
+  const { hrefKeys, descriptionsWithLinks, normalKeys } = classifyKeys(
+    englishFile,
+    stringKeys,
+  );
+
+  const requests = descriptionsWithLinks.map((linked) =>
+    buildDescriptionWithLinksRequest(
+      linked.key,
+      getValueAtPath(englishFile, linked.key) as string,
+      getLinkTextsFromSection(englishFile, linked.parentPath, linked.pattern),
+      langInfo,
+    ),
+  );
+
+  const existingTranslations = loadReferenceTranslations(targetLanguage);
+  const pairIndex = loadTargetPairIndex(englishFile, targetLanguage);
+  let contexts = normalKeys.map((key) =>
+    buildTranslationContext(englishFile, existingTranslations, key, pairIndex),
+  );
+
+  let cachedKeys = 0;
+  if (config.translationMemory) {
+    const promptVersion = getPromptVersion(langInfo);
+    const uncached = contexts.filter(
+      (context) =>
+        !hasTranslation(getMemoryKey(context, langInfo, promptVersion)),
+    );
+    cachedKeys = contexts.length - uncached.length;
+    contexts = uncached;
+  }
+
+  for (const job of groupContextsForBatching(contexts, config.batchSize)) {
+    const jobContexts = job.map((i) => contexts[i]);
+    requests.push(
+      jobContexts.length > 1
+        ? buildBatchRequest(jobContexts, langInfo)
+        : buildStringRequest(jobContexts[0], langInfo),
+    );
+  }
+
+  return { requests, cachedKeys, copiedKeys: hrefKeys.length };
+}
+
+/**
+ * Build the request that would translate a single key, ignoring the
+ * translation memory, so the final prompts can be inspected
+ */
+export function buildKeyRequest(
+  targetLanguage: string,
+  key: string,
+): ProviderRequest {
+  const langInfo = getLanguageInfo(targetLanguage);
+  if (!langInfo) {
+    throw new Error(`Unsupported language: ${targetLanguage}`);
+  }
+
+  const config = getTranslatorConfig();
+  const englishFile = loadTranslationFile(
+    path.join(getMessagesDir(), `${config.sourceLanguage}.json`),
+  );
+  const value = getValueAtPath(englishFile, key);
+  if (typeof value !== "string") {
+    throw new Error(`Key not found in ${config.sourceLanguage}.json: ${key}`);
+  }
+
+  const { hrefKeys, descriptionsWithLinks } = classifyKeys(englishFile, [
+    key,
+  ]);
+  if (hrefKeys.length > 0) {
+    throw new Error(`${key} is copied from the source, not translated`);
+  }
+  const [linked] = descriptionsWithLinks;
+  if (linked) {
+    return buildDescriptionWithLinksRequest(
+      key,
+      value,
+      getLinkTextsFromSection(englishFile, linked.parentPath, linked.pattern),
+      langInfo,
+    );
+  }
+
+  return buildStringRequest(
+    buildTranslationContext(
+      englishFile,
+      loadReferenceTranslations(targetLanguage),
+      key,
+      loadTargetPairIndex(englishFile, targetLanguage),
+    ),
+    langInfo,
+  );
+}
+
+/**
+ * Translate missing keys in a target language file
+ */
+export async function translateMissingKeys(
+  missingKeys: string[],
+  targetLanguage: string,
+  options: {
+    verbose?: boolean;
+    dryRun?: boolean;
+  } = {},
+): Promise<TranslationResult[]> {
+  const langInfo = getLanguageInfo(targetLanguage);
+  if (!langInfo) {
+    throw new Error(
+      `Unsupported language: ${targetLanguage}. Use --list-languages to see supported languages.`,
+    );
+  }
+
+  const config = getTranslatorConfig();
+  const messagesDir = getMessagesDir();
+
+  // Load English source and existing translations
+  const englishFile = loadTranslationFile(
+    path.join(messagesDir, `${config.sourceLanguage}.json`),
+  );
+  const existingTranslations = loadReferenceTranslations(targetLanguage);
+
+  // Load the target language file to build the similar-example index
+  const pairIndex = loadTargetPairIndex(englishFile, targetLanguage);
+  if (pairIndex && pairIndex.size > 0) {
+    console.log(
+      colorize(
+        `  Using ${pairIndex.size} existing translations as similarity examples`,
+        "dim",
+      ),
+    );
+  }
+
   const stringKeys = missingKeys.filter((key) => {
     const value = getValueAtPath(englishFile, key);
     return typeof value === "string";
@@ -593,11 +1615,13 @@ export async function translateMissingKeys(
       originalValue: c.englishValue,
       translatedValue: `[${langInfo.code}] ${c.englishValue}`,
       targetLanguage: langInfo.code,
+      status: "skipped" as const,
     }));
   }
 
-  const hrefKeys = stringKeys.filter((key) =>
-    isHrefKey(key, config.hrefPatterns),
+  const { hrefKeys, descriptionsWithLinks, normalKeys } = classifyKeys(
+    englishFile,
+    stringKeys,
   );
   for (const key of hrefKeys) {
     results.push({
@@ -605,39 +1629,21 @@ export async function translateMissingKeys(
       originalValue: getValueAtPath(englishFile, key) as string,
       translatedValue: getValueAtPath(englishFile, key) as string,
       targetLanguage: langInfo.code,
+      status: "skipped",
     });
   }
 
-  const patterns = config.linkedContentPatterns;
-  const descriptionKeysWithLinks = stringKeys.filter((key) => {
-    const parentPath = getDescriptionParentPath(key, patterns);
-    return parentPath && sectionHasLinks(englishFile, parentPath, patterns);
-  });
-
-  const linkTextKeysToSkip = new Set<string>();
-  for (const descKey of descriptionKeysWithLinks) {
-    const parentPath = getDescriptionParentPath(descKey, patterns)!;
-    const parent = getValueAtPath(englishFile, parentPath);
-    const linksKey = patterns.length > 0 ? patterns[0].linksKey : "links";
-    const links = (parent as Record<string, unknown>)?.[linksKey];
-    if (Array.isArray(links)) {
-      for (const kp of getLinkTextKeyPaths(
-        parentPath,
-        links.length,
-        patterns,
-      )) {
-        linkTextKeysToSkip.add(kp);
-      }
-    }
-  }
-
-  for (const descKey of descriptionKeysWithLinks) {
-    const description = getValueAtPath(englishFile, descKey) as string;
-    const parentPath = getDescriptionParentPath(descKey, patterns)!;
-    const linkTexts = getLinkTextsFromSection(englishFile, parentPath, patterns);
+  for (const linked of descriptionsWithLinks) {
+    const description = getValueAtPath(englishFile, linked.key) as string;
+    const linkTexts = getLinkTextsFromSection(
+      englishFile,
+      linked.parentPath,
+      linked.pattern,
+    );
 
     const combinedResults = await translateDescriptionWithLinks(
-      descKey,
+      englishFile,
+      linked,
       description,
       linkTexts,
       langInfo,
@@ -646,13 +1652,6 @@ export async function translateMissingKeys(
     results.push(...combinedResults);
   }
 
-  const normalKeys = stringKeys.filter(
-    (key) =>
-      !isHrefKey(key, config.hrefPatterns) &&
-      !descriptionKeysWithLinks.includes(key) &&
-      !linkTextKeysToSkip.has(key),
-  );
-
   const contexts = normalKeys.map((key) =>
     buildTranslationContext(
       englishFile,
@@ -664,13 +1663,13 @@ export async function translateMissingKeys(
 
   console.log(
     colorize(
-      `\nTranslating ${results.length + contexts.length} keys to ${langInfo.name} (${hrefKeys.length} hrefs copied, ${descriptionKeysWithLinks.length} description+links, ${contexts.length} normal)...`,
+      `\nTranslating ${results.length + contexts.length} keys to ${langInfo.name} (${hrefKeys.length} hrefs copied, ${descriptionsWithLinks.length} description+links, ${contexts.length} normal)...`,
       "cyan",
     ),
   );
 
   let lastReported = 0;
-  const batchResults = await translateBatch(contexts, langInfo, {
+  const batchResults = await translateWithMemory(contexts, langInfo, {
     verbose: options.verbose,
     onProgress: (completed, total) => {
       // Only update progress every 2% or 50 items to reduce stdout overhead
@@ -699,13 +1698,13 @@ export async function createFullTranslation(
     verbose?: boolean;
     dryRun?: boolean;
   } = {},
-): Promise<TranslationFile> {
+): Promise<{ translatedFile: TranslationFile; results: TranslationResult[] }> {
   const langInfo = getLanguageInfo(targetLanguage);
   if (!langInfo) {
     throw new Error(`Unsupported language: ${targetLanguage}`);
   }
 
-  const config = getConfig();
+  const config = getTranslatorConfig();
   const messagesDir = getMessagesDir();
 
   // Load English source
@@ -716,93 +1715,34 @@ export async function createFullTranslation(
   const allKeys = flattenKeys(englishFile);
 
   // Load all existing translations as context (except source and target language)
-  const existingTranslations = new Map<string, TranslationFile>();
-  try {
-    const files = fs
-      .readdirSync(messagesDir)
-      .filter((f) => f.endsWith(".json"));
-    for (const file of files) {
-      const langCode = file.replace(".json", "");
-      if (langCode !== config.sourceLanguage && langCode !== targetLanguage) {
-        try {
-          existingTranslations.set(
-            langCode,
-            loadTranslationFile(path.join(messagesDir, file)),
-          );
-        } catch {
-          // Skip files that fail to load
-        }
-      }
-    }
-    if (existingTranslations.size > 0) {
-      console.log(
-        colorize(
-          `  Using ${existingTranslations.size} existing translation(s) as context: ${[...existingTranslations.keys()].join(", ")}`,
-          "dim",
-        ),
-      );
-    }
-  } catch {
-    // Directory read failed, continue without context
+  const existingTranslations = loadReferenceTranslations(targetLanguage);
+  if (existingTranslations.size > 0) {
+    console.log(
+      colorize(
+        `  Using ${existingTranslations.size} existing translation(s) as context: ${[...existingTranslations.keys()].join(", ")}`,
+        "dim",
+      ),
+    );
   }
 
   const stringKeys = allKeys.filter(
     (key) => typeof getValueAtPath(englishFile, key) === "string",
   );
 
-  const patterns = config.linkedContentPatterns;
-  const hrefKeys = stringKeys.filter((key) =>
-    isHrefKey(key, config.hrefPatterns),
-  );
-  const descriptionKeysWithLinks = stringKeys.filter((key) => {
-    const parentPath = getDescriptionParentPath(key, patterns);
-    return parentPath && sectionHasLinks(englishFile, parentPath, patterns);
-  });
-
-  const linkTextKeysToSkip = new Set<string>();
-  for (const descKey of descriptionKeysWithLinks) {
-    const parentPath = getDescriptionParentPath(descKey, patterns)!;
-    const parent = getValueAtPath(englishFile, parentPath);
-    const linksKey = patterns.length > 0 ? patterns[0].linksKey : "links";
-    const links = (parent as Record<string, unknown>)?.[linksKey];
-    if (Array.isArray(links)) {
-      for (const kp of getLinkTextKeyPaths(
-        parentPath,
-        links.length,
-        patterns,
-      )) {
-        linkTextKeysToSkip.add(kp);
-      }
-    }
-  }
-
-  const normalKeys = stringKeys.filter(
-    (key) =>
-      !isHrefKey(key, config.hrefPatterns) &&
-      !descriptionKeysWithLinks.includes(key) &&
-      !linkTextKeysToSkip.has(key),
+  const { hrefKeys, descriptionsWithLinks, normalKeys } = classifyKeys(
+    englishFile,
+    stringKeys,
   );
 
   // Try to load existing target file for similar-example matching
-  let pairIndex:
-    | Map<string, { english: string; translated: string; key: string }>
-    | undefined;
-  const targetFilePath = path.join(messagesDir, `${targetLanguage}.json`);
-  if (fs.existsSync(targetFilePath)) {
-    try {
-      const existingTargetFile = loadTranslationFile(targetFilePath);
-      pairIndex = buildTranslationPairIndex(englishFile, existingTargetFile);
-      if (pairIndex.size > 0) {
-        console.log(
-          colorize(
-            `  Using ${pairIndex.size} existing translations as similarity examples`,
-            "dim",
-          ),
-        );
-      }
-    } catch {
-      // Failed to load, continue without examples
-    }
+  const pairIndex = loadTargetPairIndex(englishFile, targetLanguage);
+  if (pairIndex && pairIndex.size > 0) {
+    console.log(
+      colorize(
+        `  Using ${pairIndex.size} existing translations as similarity examples`,
+        "dim",
+      ),
+    );
   }
 
   const contexts: TranslationContext[] = normalKeys.map((key) =>
@@ -816,7 +1756,7 @@ export async function createFullTranslation(
 
   console.log(
     colorize(
-      `\nCreating full translation for ${langInfo.name} (${stringKeys.length} strings: ${hrefKeys.length} hrefs copy, ${descriptionKeysWithLinks.length} description+links, ${contexts.length} normal)...`,
+      `\nCreating full translation for ${langInfo.name} (${stringKeys.length} strings: ${hrefKeys.length} hrefs copy, ${descriptionsWithLinks.length} description+links, ${contexts.length} normal)...`,
       "cyan",
     ),
   );
@@ -828,7 +1768,7 @@ export async function createFullTranslation(
     const translatedFile: TranslationFile = JSON.parse(
       JSON.stringify(englishFile),
     );
-    return translatedFile;
+    return { translatedFile, results: [] };
   }
 
   const allResults: TranslationResult[] = [];
@@ -839,20 +1779,21 @@ export async function createFullTranslation(
       originalValue: getValueAtPath(englishFile, key) as string,
       translatedValue: getValueAtPath(englishFile, key) as string,
       targetLanguage: langInfo.code,
+      status: "skipped",
     });
   }
 
-  for (const descKey of descriptionKeysWithLinks) {
-    const description = getValueAtPath(englishFile, descKey) as string;
-    const parentPath = getDescriptionParentPath(descKey, patterns)!;
+  for (const linked of descriptionsWithLinks) {
+    const description = getValueAtPath(englishFile, linked.key) as string;
     const linkTexts = getLinkTextsFromSection(
       englishFile,
-      parentPath,
-      patterns,
+      linked.parentPath,
+      linked.pattern,
     );
 
     const combinedResults = await translateDescriptionWithLinks(
-      descKey,
+      englishFile,
+      linked,
       description,
       linkTexts,
       langInfo,
@@ -862,7 +1803,7 @@ export async function createFullTranslation(
   }
 
   let lastReported = 0;
-  const batchResults = await translateBatch(contexts, langInfo, {
+  const batchResults = await translateWithMemory(contexts, langInfo, {
     verbose: options.verbose,
     onProgress: (completed, total) => {
       const pct = Math.round((completed / total) * 100);
@@ -886,6 +1827,11 @@ export async function createFullTranslation(
   );
 
   for (const result of allResults) {
+    if (result.status === "failed") {
+      // Leave failed keys missing so the next run picks them up
+      removeKeyAtPath(translatedFile, result.key);
+      continue;
+    }
     setValueAtKeyPath(
       translatedFile,
       result.key,
@@ -894,7 +1840,7 @@ export async function createFullTranslation(
     );
   }
 
-  return translatedFile;
+  return { translatedFile, results: allResults };
 }
 
 /**
@@ -15,15 +15,28 @@ export interface DiscrepancyReport {
   missingInTarget: string[];
   extraInTarget: string[];
   typeMismatches: TypeMismatch[];
+  /** Keys whose source value changed since they were translated */
+  staleInTarget: string[];
+  /** Translations longer than their key's hard length limit */
+  overLength: LengthOverflow[];
   summary: {
     totalKeysInSource: number;
     totalKeysInTarget: number;
     missingCount: number;
     extraCount: number;
     typeMismatchCount: number;
+    staleCount: number;
+    overLengthCount: number;
   };
 }
 
+export interface LengthOverflow {
+  key: string;
+  value: string;
+  length: number;
+  maxLength: number;
+}
+
 export interface TypeMismatch {
   path: string;
   sourceType: "string" | "object";
@@ -49,19 +62,125 @@ export interface TranslationContext {
   existingTranslations: Record<string, string>;
   /** Up to 3 similar already-translated strings for consistency */
   similarExamples?: SimilarExample[];
+  /** Translator note explaining where and how the string is used */
+  note?: string;
+  /** Hard maximum length of the translation in characters */
+  maxLength?: number;
 }
 
+/**
+ * ok: translated normally
+ * fallback: translated through a degraded path (e.g. description without its links)
+ * skipped: intentionally copied from the source (href keys)
+ * cached: reused from the translation memory without calling the provider
+ * failed: no usable translation — must not be written to the target file
+ */
+export type TranslationStatus =
+  "ok" | "failed" | "fallback" | "skipped" | "cached";
+
 export interface TranslationResult {
   key: string;
   originalValue: string;
+  /** Empty when status is "failed" */
   translatedValue: string;
   targetLanguage: string;
+  status: TranslationStatus;
+  /** Why the translation failed or fell back */
+  error?: string;
+}
+
+/**
+ * Back-translation review of one key (see `transl8 review`)
+ */
+export interface ReviewResult {
+  key: string;
+  source: string;
+  translation: string;
+  /** The translation translated back into the source language */
+  backTranslation: string;
+  /** Word overlap of source and back-translation, 0–1 */
+  similarity: number;
+  /** Model's judgment of meaning preservation, 1 (wrong) to 5 (faithful) */
+  score: number;
+  suspicious: boolean;
+  /** Why the key is suspicious (model judgment and local checks) */
+  reasons: string[];
+}
+
+/**
+ * Keys that failed in the most recent run for one language
+ * (stored in .transl8/failed.json, keyed by language code)
+ */
+export interface FailedKeyRecord {
+  updatedAt: string;
+  /** key path → error message */
+  keys: Record<string, string>;
+}
+
+/**
+ * CLDR plural category, in CLDR's canonical order
+ */
+export type PluralCategory = "zero" | "one" | "two" | "few" | "many" | "other";
+
+/**
+ * Model price in USD per 1M tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  /** Price of cached input tokens (default: same as input) */
+  cachedInput?: number;
+}
+
+/**
+ * What a translation memory entry is looked up by: the same source text is
+ * only reused for the same language, prompt version, model, translator note,
+ * length limit and relevant glossary terms
+ */
+export interface TranslationMemoryKey {
+  source: string;
+  language: string;
+  provider: string;
+  model: string;
+  /** Hash of the prompts the translation was made with */
+  promptVersion: string;
+  /** Translator note of the key, if any */
+  note?: string;
+  /** Hard length limit of the key, if any */
+  maxLength?: number;
+  /** Glossary prompt section of the terms the source mentions, if any */
+  glossary?: string;
+}
+
+/**
+ * A translation stored in the translation memory (.transl8/tm.json)
+ */
+export interface TranslationMemoryEntry extends TranslationMemoryKey {
+  translation: string;
+  createdAt: string;
+  lastUsedAt: string;
+  /** How many times the entry saved a provider request */
+  hits: number;
+}
+
+/**
+ * transl8.lock.json, stored next to the messages directory and meant to be
+ * committed: the hash of each source value at the time it was translated
+ */
+export interface SourceLockFile {
+  version: 1;
+  /** language code → key path → source value hash */
+  languages: Record<string, Record<string, string>>;
 }
 
 export interface LanguageInfo {
   code: string;
   name: string;
   nativeName: string;
+  /** CLDR cardinal plural categories used by `{n, plural, ...}` */
+  pluralCategories: PluralCategory[];
+  /** CLDR ordinal plural categories used by `{n, selectordinal, ...}` */
+  ordinalCategories: PluralCategory[];
 }
 
 /**
@@ -73,12 +192,27 @@ export interface GlossaryEntry {
   term: string;
   description: string;
   caseSensitive?: boolean;
+  /**
+   * Other source spellings and inflections that count as the term
+   * (e.g. "credit" for "credits")
+   */
+  aliases?: string[];
   /** language-code → approved translation. Empty object = keep English term */
   translations: Record<string, string>;
+  /**
+   * language-code → renderings that must never be used for the term
+   * (e.g. { "de": ["Arbeitsbereich"] } for "Workspace")
+   */
+  forbidden?: Record<string, string[]>;
 }
 
 export interface Glossary {
   _description?: string;
+  /**
+   * Other glossary files whose terms this one inherits, relative to this
+   * file. Later files override earlier ones; this file overrides them all.
+   */
+  extends?: string | string[];
   protectedTerms: GlossaryEntry[];
 }
 
@@ -97,6 +231,89 @@ export interface LinkedContentPattern {
   linkHrefField: string;
 }
 
+/**
+ * Which OpenAI-compatible endpoint to call: the Responses API or the
+ * Chat Completions API (the one most self-hosted servers implement)
+ */
+export type ApiMode = "responses" | "chat";
+
+/**
+ * Settings for the built-in offline "mock" provider
+ */
+export interface MockProviderConfig {
+  /**
+   * echo: return the source text unchanged
+   * pseudo: accented pseudo-translation (placeholders untouched)
+   * fixtures: look up by key, then by source text, in `fixturesPath`;
+   *   a missing fixture is a failure
+   */
+  mode: "echo" | "pseudo" | "fixtures";
+  /** JSON file of { "<lang>": { "<key or source text>": "<translation>" } } */
+  fixturesPath?: string;
+  /** Key patterns (e.g. "auth.*") whose requests always fail */
+  failKeys?: string[];
+  /**
+   * HTTP status reported by injected failures, e.g. 429 to exercise retries
+   * or 401 to abort the run (default: none — a non-retryable failure)
+   */
+  failStatus?: number;
+  /** Fraction (0–1) of keys that fail, chosen deterministically by key hash */
+  failRate?: number;
+}
+
+/**
+ * Retry policy for failed provider requests
+ */
+export interface RetryConfig {
+  /** Retries after the first attempt (default: 3, 0 disables retrying) */
+  maxRetries: number;
+  /** Delay before the first retry, doubled each attempt (default: 1000) */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, Retry-After included (default: 30000) */
+  maxDelayMs: number;
+}
+
+export type Formality = "formal" | "informal";
+
+/**
+ * How translations into a language should sound, rendered into its system
+ * prompt. Every field is optional.
+ */
+export interface LanguageStyle {
+  /** How to address the user; also checked by `transl8 lint` */
+  formality?: Formality;
+  /** Who the app is for, e.g. "small business owners" */
+  audience?: string;
+  /** Explicit pronoun/address choice, e.g. "du, lowercase" */
+  pronouns?: string;
+  /** Brand voice notes, e.g. "friendly and concise, no exclamation marks" */
+  voice?: string;
+}
+
+/**
+ * Hard length limit for keys matching a pattern. With both fields set, the
+ * stricter one applies.
+ */
+export interface LengthLimit {
+  /** Maximum length in characters */
+  maxChars?: number;
+  /** Maximum length relative to the source, e.g. 1.3 = 30% longer */
+  maxRatio?: number;
+}
+
+/**
+ * Prompt template files replacing the built-in prompts. Paths are resolved
+ * against the config file's directory.
+ */
+export interface PromptTemplates {
+  /** System prompt, used by every translation request */
+  system?: string;
+  /** User prompt for one key */
+  translation?: string;
+  /** User prompt for a description translated together with its link texts */
+  descriptionWithLinks?: string;
+}
+
 /**
  * Configuration loaded from .transl8rc.json
  */
@@ -105,41 +322,394 @@ export interface Transl8Config {
   messagesDir: string;
   /** Source language code (default: "en") */
   sourceLanguage: string;
-  /** OpenAI model to use (default: "gpt-5.2") */
+  /** Translation provider to use (default: "openai") */
+  provider: string;
+  /** Model to use (default: "gpt-5.2") */
   model: string;
+  /** Base URL of an OpenAI-compatible server (default: OpenAI's API) */
+  baseURL?: string;
+  /** Extra HTTP headers sent with every request */
+  headers: Record<string, string>;
+  /** Request timeout in milliseconds (default: SDK default) */
+  timeout?: number;
+  /** Responses vs Chat Completions API (default: "responses") */
+  apiMode: ApiMode;
+  /** Options for the "mock" provider */
+  mock?: MockProviderConfig;
   /** Max concurrent API requests (default: 50) */
   concurrency: number;
+  /**
+   * Max keys from the same section packed into one request with a JSON
+   * response (default: 1 = one request per key)
+   */
+  batchSize: number;
+  /** Retry policy for failed requests */
+  retry: RetryConfig;
+  /**
+   * How many times to re-prompt the model with the specific problem when a
+   * translation fails validation (e.g. broken placeholders) (default: 2)
+   */
+  validationRetries: number;
   /** Path to glossary.json (default: "./glossary.json") */
   glossaryPath: string;
+  /** Path to the translator notes file (default: "./context.json") */
+  contextPath: string;
+  /** Directory for run state such as failed keys (default: "./.transl8") */
+  stateDir: string;
+  /**
+   * Reuse earlier translations of the same source text from the translation
+   * memory in stateDir instead of calling the provider (default: true)
+   */
+  translationMemory: boolean;
+  /** Model prices for cost estimates, merged over the built-in table */
+  prices: Record<string, ModelPrice>;
+  /** Abort a run whose estimated cost in USD exceeds this */
+  maxBudget?: number;
+  /**
+   * Style per language code; "*" applies to every language and is merged
+   * under the language's own entry
+   */
+  styles: Record<string, LanguageStyle>;
+  /** Template files overriding the built-in prompts */
+  prompts: PromptTemplates;
+  /**
+   * Hard length limits per key pattern (e.g. "*.button"); when several
+   * patterns match a key, the strictest limit applies
+   */
+  lengthLimits: Record<string, LengthLimit>;
   /** Patterns for linked content (description + links) */
   linkedContentPatterns: LinkedContentPattern[];
   /** Key patterns that should never be translated (copied from source) */
   hrefPatterns: string[];
 }
 
+/**
+ * Structured description of what a provider request is asking for. Real LLM
+ * providers only need the prompts; offline providers use this to respond
+ * without parsing them.
+ */
+export type ProviderTask =
+  | {
+      type: "string";
+      key: string;
+      source: string;
+      targetLanguage: string;
+    }
+  | {
+      type: "descriptionWithLinks";
+      key: string;
+      source: string;
+      linkTexts: string[];
+      targetLanguage: string;
+    }
+  | {
+      type: "batch";
+      /** Identifies the batch in logs and failure injection */
+      key: string;
+      items: { key: string; source: string }[];
+      targetLanguage: string;
+    }
+  | {
+      /** Translate an existing translation back into the source language */
+      type: "backTranslation";
+      key: string;
+      /** The translation to translate back */
+      source: string;
+      /** Language of the translation under review */
+      targetLanguage: string;
+    }
+  | {
+      /** Judge whether a translation preserves the meaning of its source */
+      type: "review";
+      key: string;
+      /** The source-language original */
+      source: string;
+      translation: string;
+      backTranslation: string;
+      /** Language of the translation under review */
+      targetLanguage: string;
+    };
+
+/**
+ * Request a JSON response matching a JSON schema (structured output)
+ */
+export interface ProviderResponseFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+/**
+ * A single prompt sent to a translation provider
+ */
+export interface ProviderRequest {
+  /** Model name from config */
+  model: string;
+  /** System prompt (translator persona, guidelines, glossary) */
+  instructions: string;
+  /** User prompt for this specific string */
+  input: string;
+  task: ProviderTask;
+  /** When set, the provider must return JSON matching this schema */
+  responseFormat?: ProviderResponseFormat;
+}
+
+/**
+ * Tokens billed for a request, as reported by the provider
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens served from the provider's prompt cache (billed at a discount) */
+  cachedTokens: number;
+}
+
+export interface ProviderResponse {
+  /** Raw text returned by the model, trimmed */
+  text: string;
+  /** Token usage, when the provider reports it */
+  usage?: TokenUsage;
+}
+
+/**
+ * One line of the usage ledger (.transl8/usage.jsonl): the tokens a command
+ * spent on one language with one model
+ */
+export interface UsageLedgerEntry extends TokenUsage {
+  /** ISO timestamp of the end of the run */
+  timestamp: string;
+  command: string;
+  language: string;
+  provider: string;
+  model: string;
+  requests: number;
+  /** Cost in USD at the prices of the time, or null when unknown */
+  cost: number | null;
+}
+
+/**
+ * A backend that turns prompts into translations. OpenAI is the built-in
+ * implementation; other vendors or self-hosted models can be added with
+ * registerProvider() and selected via the `provider` config field.
+ */
+export interface TranslationProvider {
+  readonly name: string;
+  complete(request: ProviderRequest): Promise<ProviderResponse>;
+}
+
+/**
+ * ICU MessageFormat AST, produced by parseMessage() in icu.ts
+ */
+export interface IcuLiteralNode {
+  type: "literal";
+  value: string;
+}
+
+/** `{name}` or a formatted argument like `{amount, number, currency}` */
+export interface IcuArgumentNode {
+  type: "argument";
+  name: string;
+  /** number, date, time, ... (undefined for a plain `{name}`) */
+  format?: string;
+  /** Raw style text after the format, e.g. "currency" or "::percent" */
+  style?: string;
+}
+
+/** `{count, plural, ...}` or `{count, selectordinal, ...}` */
+export interface IcuPluralNode {
+  type: "plural";
+  name: string;
+  ordinal: boolean;
+  offset: number;
+  /** Selector (one, other, =0, ...) → branch content */
+  options: Record<string, IcuNode[]>;
+}
+
+/** `{gender, select, male {...} other {...}}` */
+export interface IcuSelectNode {
+  type: "select";
+  name: string;
+  options: Record<string, IcuNode[]>;
+}
+
+/** `#` inside a plural branch */
+export interface IcuPoundNode {
+  type: "pound";
+}
+
+export type IcuNode =
+  | IcuLiteralNode
+  | IcuArgumentNode
+  | IcuPluralNode
+  | IcuSelectNode
+  | IcuPoundNode;
+
 export const SUPPORTED_LANGUAGES: LanguageInfo[] = [
-  { code: "en", name: "English", nativeName: "English" },
-  { code: "de", name: "German", nativeName: "Deutsch" },
-  { code: "es", name: "Spanish", nativeName: "Español" },
-  { code: "fr", name: "French", nativeName: "Français" },
-  { code: "it", name: "Italian", nativeName: "Italiano" },
-  { code: "pt", name: "Portuguese", nativeName: "Português" },
-  { code: "ja", name: "Japanese", nativeName: "日本語" },
-  { code: "ko", name: "Korean", nativeName: "한국어" },
-  { code: "zh", name: "Chinese (Simplified)", nativeName: "简体中文" },
-  { code: "zh-TW", name: "Chinese (Traditional)", nativeName: "繁體中文" },
-  { code: "ru", name: "Russian", nativeName: "Русский" },
-  { code: "ar", name: "Arabic", nativeName: "العربية" },
-  { code: "hi", name: "Hindi", nativeName: "हिन्दी" },
-  { code: "nl", name: "Dutch", nativeName: "Nederlands" },
-  { code: "pl", name: "Polish", nativeName: "Polski" },
-  { code: "tr", name: "Turkish", nativeName: "Türkçe" },
-  { code: "vi", name: "Vietnamese", nativeName: "Tiếng Việt" },
-  { code: "th", name: "Thai", nativeName: "ไทย" },
-  { code: "sv", name: "Swedish", nativeName: "Svenska" },
-  { code: "da", name: "Danish", nativeName: "Dansk" },
-  { code: "fi", name: "Finnish", nativeName: "Suomi" },
-  { code: "no", name: "Norwegian", nativeName: "Norsk" },
-  { code: "cs", name: "Czech", nativeName: "Čeština" },
-  { code: "uk", name: "Ukrainian", nativeName: "Українська" },
+  {
+    code: "en",
+    name: "English",
+    nativeName: "English",
+    pluralCategories: ["one", "other"],
+    ordinalCategories: ["one", "two", "few", "other"],
+  },
+  {
+    code: "de",
+    name: "German",
+    nativeName: "Deutsch",
+    pluralCategories: ["one", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "es",
+    name: "Spanish",
+    nativeName: "Español",
+    pluralCategories: ["one", "many", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "fr",
+    name: "French",
+    nativeName: "Français",
+    pluralCategories: ["one", "many", "other"],
+    ordinalCategories: ["one", "other"],
+  },
+  {
+    code: "it",
+    name: "Italian",
+    nativeName: "Italiano",
+    pluralCategories: ["one", "many", "other"],
+    ordinalCategories: ["many", "other"],
+  },
+  {
+    code: "pt",
+    name: "Portuguese",
+    nativeName: "Português",
+    pluralCategories: ["one", "many", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "ja",
+    name: "Japanese",
+    nativeName: "日本語",
+    pluralCategories: ["other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "ko",
+    name: "Korean",
+    nativeName: "한국어",
+    pluralCategories: ["other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "zh",
+    name: "Chinese (Simplified)",
+    nativeName: "简体中文",
+    pluralCategories: ["other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "zh-TW",
+    name: "Chinese (Traditional)",
+    nativeName: "繁體中文",
+    pluralCategories: ["other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "ru",
+    name: "Russian",
+    nativeName: "Русский",
+    pluralCategories: ["one", "few", "many", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "ar",
+    name: "Arabic",
+    nativeName: "العربية",
+    pluralCategories: ["zero", "one", "two", "few", "many", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "hi",
+    name: "Hindi",
+    nativeName: "हिन्दी",
+    pluralCategories: ["one", "other"],
+    ordinalCategories: ["one", "two", "few", "many", "other"],
+  },
+  {
+    code: "nl",
+    name: "Dutch",
+    nativeName: "Nederlands",
+    pluralCategories: ["one", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "pl",
+    name: "Polish",
+    nativeName: "Polski",
+    pluralCategories: ["one", "few", "many", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "tr",
+    name: "Turkish",
+    nativeName: "Türkçe",
+    pluralCategories: ["one", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "vi",
+    name: "Vietnamese",
+    nativeName: "Tiếng Việt",
+    pluralCategories: ["other"],
+    ordinalCategories: ["one", "other"],
+  },
+  {
+    code: "th",
+    name: "Thai",
+    nativeName: "ไทย",
+    pluralCategories: ["other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "sv",
+    name: "Swedish",
+    nativeName: "Svenska",
+    pluralCategories: ["one", "other"],
+    ordinalCategories: ["one", "other"],
+  },
+  {
+    code: "da",
+    name: "Danish",
+    nativeName: "Dansk",
+    pluralCategories: ["one", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "fi",
+    name: "Finnish",
+    nativeName: "Suomi",
+    pluralCategories: ["one", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "no",
+    name: "Norwegian",
+    nativeName: "Norsk",
+    pluralCategories: ["one", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "cs",
+    name: "Czech",
+    nativeName: "Čeština",
+    pluralCategories: ["one", "few", "many", "other"],
+    ordinalCategories: ["other"],
+  },
+  {
+    code: "uk",
+    name: "Ukrainian",
+    nativeName: "Українська",
+    pluralCategories: ["one", "few", "many", "other"],
+    ordinalCategories: ["few", "other"],
+  },
 ];
@@ -0,0 +1,207 @@
+/**
+ * Token usage accounting — what each run actually spent, per language and
+ * model, appended to a local ledger for monthly reporting
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { TokenUsage, UsageLedgerEntry } from "./types.js";
+import { calculateCost, formatCost } from "./estimate.js";
+import { colorize, getStateDir, printHeader, printSection } from "./utils.js";
+
+const LEDGER_FILE = "usage.jsonl";
+
+/** Usage of one language with one model during the current run */
+interface RunUsage extends TokenUsage {
+  language: string;
+  provider: string;
+  model: string;
+  requests: number;
+}
+
+/** Totals of a group of ledger entries */
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  /** Sum of known costs in USD */
+  cost: number;
+  /** Whether any entry had no known price (cost is then a lower bound) */
+  unpriced: boolean;
+}
+
+/** Usage of the current run, keyed by language/provider/model */
+const runUsage = new Map<string, RunUsage>();
+
+/**
+ * Get the path to .transl8/usage.jsonl
+ */
+export function getUsageLedgerPath(): string {
+  return path.join(getStateDir(), LEDGER_FILE);
+}
+
+/**
+ * Add the usage of one completed request to the current run. Requests whose
+ * provider doesn't report usage are still counted.
+ */
+export function recordUsage(
+  language: string,
+  provider: string,
+  model: string,
+  usage: TokenUsage | undefined,
+): void {
+  const id = JSON.stringify([language, provider, model]);
+  let entry = runUsage.get(id);
+  if (!entry) {
+    entry = {
+      language,
+      provider,
+      model,
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cachedTokens: 0,
+    };
+    runUsage.set(id, entry);
+  }
+  entry.requests++;
+  entry.inputTokens += usage?.inputTokens || 0;
+  entry.outputTokens += usage?.outputTokens || 0;
+  entry.cachedTokens += usage?.cachedTokens || 0;
+}
+
+/**
+ * Get the usage of the current run as ledger entries for `command`.
+ * The mock provider is free.
+ */
+export function getRunUsage(command: string): UsageLedgerEntry[] {
+  const timestamp = new Date().toISOString();
+  return [...runUsage.values()].map((entry) => ({
+    timestamp,
+    command,
+    ...entry,
+    cost: entry.provider === "mock" ? 0 : calculateCost(entry.model, entry),
+  }));
+}
+
+/**
+ * Append the usage of the current run to the ledger and reset it.
+ * Returns the entries written.
+ */
+export function saveRunUsage(command: string): UsageLedgerEntry[] {
+  const entries = getRunUsage(command);
+  runUsage.clear();
+  if (entries.length === 0) return entries;
+
+  const filePath = getUsageLedgerPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(
+    filePath,
+    entries.map((entry) => JSON.stringify(entry) + "\n").join(""),
+    "utf-8",
+  );
+  return entries;
+}
+
+/**
+ * Load every ledger entry. Unreadable lines are skipped.
+ */
+export function loadUsageLedger(): UsageLedgerEntry[] {
+  const filePath = getUsageLedgerPath();
+  if (!fs.existsSync(filePath)) return [];
+
+  const entries: UsageLedgerEntry[] = [];
+  for (const line of fs.readFileSync(filePath, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as UsageLedgerEntry);
+    } catch {
+      // Partially written line: ignore rather than lose the rest
+    }
+  }
+  return entries;
+}
+
+/**
+ * Sum ledger entries, grouped by `groupBy` (all into "total" when omitted)
+ */
+export function sumUsage(
+  entries: UsageLedgerEntry[],
+  groupBy: (entry: UsageLedgerEntry) => string = () => "total",
+): Record<string, UsageTotals> {
+  const totals: Record<string, UsageTotals> = {};
+  for (const entry of entries) {
+    const group = groupBy(entry);
+    const total = (totals[group] ??= {
+      requests: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      cachedTokens: 0,
+      cost: 0,
+      unpriced: false,
+    });
+    total.requests += entry.requests;
+    total.inputTokens += entry.inputTokens;
+    total.outputTokens += entry.outputTokens;
+    total.cachedTokens += entry.cachedTokens;
+    total.cost += entry.cost ?? 0;
+    if (entry.cost === null) total.unpriced = true;
+  }
+  return totals;
+}
+
+/**
+ * Format totals as one line: requests, tokens and cost
+ */
+function formatTotals(totals: UsageTotals): string {
+  const cached =
+    totals.cachedTokens > 0
+      ? colorize(` (${totals.cachedTokens} cached)`, "dim")
+      : "";
+  const cost = totals.unpriced
+    ? `${formatCost(totals.cost)}+ ${colorize("(some models unpriced)", "yellow")}`
+    : formatCost(totals.cost);
+  return `${totals.requests} requests, ${colorize(String(totals.inputTokens), "cyan")} input${cached}, ${colorize(String(totals.outputTokens), "cyan")} output, ${colorize(cost, "bold")}`;
+}
+
+/**
+ * Print the usage of a finished run (entries from saveRunUsage)
+ */
+export function printRunUsage(entries: UsageLedgerEntry[]): void {
+  if (entries.length === 0) return;
+
+  printSection("Token usage");
+  for (const entry of entries) {
+    const [totals] = Object.values(sumUsage([entry]));
+    console.log(
+      `  ${colorize(entry.language, "cyan")} ${colorize(`${entry.provider}/${entry.model}`, "dim")}: ${formatTotals(totals)}`,
+    );
+  }
+}
+
+/**
+ * Print ledger totals by day, language, model and command
+ */
+export function printUsageReport(entries: UsageLedgerEntry[]): void {
+  printHeader("Token Usage");
+
+  if (entries.length === 0) {
+    console.log(colorize("\nNo usage recorded.", "yellow"));
+    return;
+  }
+
+  const groups: [string, (entry: UsageLedgerEntry) => string][] = [
+    ["By day", (entry) => entry.timestamp.slice(0, 10)],
+    ["By language", (entry) => entry.language],
+    ["By model", (entry) => `${entry.provider}/${entry.model}`],
+    ["By command", (entry) => entry.command],
+  ];
+  for (const [title, groupBy] of groups) {
+    printSection(title);
+    const totals = sumUsage(entries, groupBy);
+    for (const group of Object.keys(totals).sort()) {
+      console.log(`  ${group.padEnd(20)} ${formatTotals(totals[group])}`);
+    }
+  }
+
+  printSection("Total");
+  console.log(`  ${formatTotals(sumUsage(entries).total)}`);
+}
@@ -4,15 +4,19 @@
 
 import * as fs from "fs";
 import * as path from "path";
+import { tryParseMessage, collectArguments } from "./icu.js";
 import type {
   TranslationFile,
   Glossary,
+  GlossaryEntry,
   SimilarExample,
   LinkedContentPattern,
 } from "./types.js";
 
 let messagesDir: string | null = null;
 let glossaryPath: string | null = null;
+let contextPath: string | null = null;
+let stateDir: string | null = null;
 
 /**
  * Set the messages directory path
@@ -52,6 +56,44 @@ export function getGlossaryPath(): string {
   );
 }
 
+/**
+ * Set the translator notes file path
+ */
+export function setContextPath(p: string): void {
+  contextPath = path.resolve(p);
+}
+
+/**
+ * Get the path to the translator notes file (context.json)
+ */
+export function getContextPath(): string {
+  if (contextPath) {
+    return contextPath;
+  }
+  throw new Error(
+    "Context path not set. Run `transl8 init` to create a config file.",
+  );
+}
+
+/**
+ * Set the state directory path (.transl8/)
+ */
+export function setStateDir(dir: string): void {
+  stateDir = path.resolve(dir);
+}
+
+/**
+ * Get the state directory path
+ */
+export function getStateDir(): string {
+  if (stateDir) {
+    return stateDir;
+  }
+  throw new Error(
+    "State directory not set. Run `transl8 init` to create a config file.",
+  );
+}
+
 /**
  * List all translation files in the messages directory
  */
@@ -94,6 +136,7 @@ export function loadTranslationFile(filePath: string): TranslationFile {
 /**
  * Merge content into source structure, preserving source key order at every level.
  * Ensures translated files match source order for easy comparison.
+ * Keys missing from content stay missing (they are not filled from source).
  */
 export function reorderToMatchSource(
   source: TranslationFile,
@@ -105,6 +148,10 @@ export function reorderToMatchSource(
     const sourceVal = source[key];
     const contentVal = content[key];
 
+    if (contentVal === undefined || isMetadataKey(key)) {
+      continue;
+    }
+
     if (
       typeof sourceVal === "object" &&
       sourceVal !== null &&
@@ -143,7 +190,7 @@ export function reorderToMatchSource(
         result[key] = sourceVal as unknown as TranslationFile;
       }
     } else {
-      result[key] = contentVal !== undefined ? contentVal : sourceVal;
+      result[key] = contentVal;
     }
   }
 
@@ -166,7 +213,16 @@ export function saveTranslationFile(
 }
 
 /**
- * Flatten a nested translation object to an array of key paths
+ * Check whether a property holds translator notes rather than translatable
+ * content: `_context` objects and `@key` entries
+ */
+export function isMetadataKey(name: string): boolean {
+  return name === "_context" || name.startsWith("@");
+}
+
+/**
+ * Flatten a nested translation object to an array of key paths.
+ * Metadata entries (`_context`, `@key`) are not keys.
  */
 export function flattenKeys(
   obj: TranslationFile,
@@ -175,6 +231,7 @@ export function flattenKeys(
   const keys: string[] = [];
 
   for (const key of Object.keys(obj)) {
+    if (isMetadataKey(key)) continue;
     const fullPath = prefix ? `${prefix}.${key}` : key;
     const value = obj[key];
 
@@ -246,6 +303,24 @@ export function setValueAtPath(
   current[parts[parts.length - 1]] = value;
 }
 
+/**
+ * Remove a key at a given path from an object
+ */
+export function removeKeyAtPath(obj: TranslationFile, keyPath: string): void {
+  const parts = keyPath.split(".");
+  let current = obj;
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    const part = parts[i];
+    if (!(part in current) || typeof current[part] !== "object") {
+      return; // Path doesn't exist
+    }
+    current = current[part] as TranslationFile;
+  }
+
+  delete current[parts[parts.length - 1]];
+}
+
 /**
  * Get the type of a value in the translation structure
  */
@@ -298,6 +373,25 @@ export function isHrefKey(
   });
 }
 
+/**
+ * Check if a key path matches a glob-like pattern, where "*" matches any
+ * run of characters (including dots): "auth.*", "*.title", "*.cta.*".
+ */
+export function matchesKeyPattern(keyPath: string, pattern: string): boolean {
+  const regex = new RegExp(
+    `^${pattern.split("*").map(escapeRegex).join(".*")}$`,
+  );
+  return regex.test(keyPath);
+}
+
+/** The linked content layout used when no patterns are configured */
+const DEFAULT_LINKED_CONTENT_PATTERN: LinkedContentPattern = {
+  descriptionPattern: "*.description",
+  linksKey: "links",
+  linkTextField: "text",
+  linkHrefField: "href",
+};
+
 /**
  * Check if a key path is a link text key, based on configured patterns.
  */
@@ -305,11 +399,9 @@ export function isLinkTextKey(
   keyPath: string,
   patterns: LinkedContentPattern[] = [],
 ): boolean {
-  if (patterns.length === 0) {
-    // Default: matches links.*.text
-    return /\.links\.\d+\.text$/.test(keyPath);
-  }
-  return patterns.some((p) => {
+  const candidates =
+    patterns.length > 0 ? patterns : [DEFAULT_LINKED_CONTENT_PATTERN];
+  return candidates.some((p) => {
     const regex = new RegExp(
       `\\.${escapeRegex(p.linksKey)}\\.\\d+\\.${escapeRegex(p.linkTextField)}$`,
     );
@@ -317,46 +409,55 @@ export function isLinkTextKey(
   });
 }
 
+/** A description key whose section has links, with the pattern it matched */
+export interface LinkedDescription {
+  key: string;
+  /** The section holding both the description and its links */
+  parentPath: string;
+  pattern: LinkedContentPattern;
+}
+
 /**
- * Get the parent path that would contain both description and links.
- * Uses configured patterns to determine what constitutes a "description" key.
+ * Resolve a description key to the linked content pattern that applies to
+ * it: the first configured pattern whose descriptionPattern matches the key
+ * and whose links array is present in the key's section (the default
+ * `*.description` + `links` layout when none are configured). Returns null
+ * when no pattern applies.
  */
-export function getDescriptionParentPath(
+export function findLinkedDescription(
+  obj: TranslationFile,
   keyPath: string,
   patterns: LinkedContentPattern[] = [],
-): string | null {
-  if (patterns.length === 0) {
-    // Default: key must end with ".description"
-    if (!keyPath.endsWith(".description")) return null;
-    return getParentSection(keyPath);
-  }
-  for (const p of patterns) {
-    // Convert "*.description" -> suffix ".description"
-    const suffix = p.descriptionPattern.replace(/^\*/, "");
-    if (keyPath.endsWith(suffix)) {
-      return getParentSection(keyPath);
+): LinkedDescription | null {
+  const parentPath = getParentSection(keyPath);
+  const candidates =
+    patterns.length > 0 ? patterns : [DEFAULT_LINKED_CONTENT_PATTERN];
+  for (const pattern of candidates) {
+    if (
+      matchesKeyPattern(keyPath, pattern.descriptionPattern) &&
+      sectionHasLinks(obj, parentPath, pattern)
+    ) {
+      return { key: keyPath, parentPath, pattern };
     }
   }
   return null;
 }
 
 /**
- * Check if a parent object has both description and links array with items.
- * Uses configured patterns for field names.
+ * Check if a parent object has a links array with items, using the
+ * pattern's field names.
  */
 export function sectionHasLinks(
   obj: TranslationFile,
   parentPath: string,
-  patterns: LinkedContentPattern[] = [],
+  pattern: LinkedContentPattern,
 ): boolean {
   const parent = getValueAtPath(obj, parentPath);
   if (typeof parent !== "object" || parent === null) return false;
   const parentObj = parent as Record<string, unknown>;
 
-  const linksKey = patterns.length > 0 ? patterns[0].linksKey : "links";
-  const textField = patterns.length > 0 ? patterns[0].linkTextField : "text";
-
-  const links = parentObj[linksKey];
+  const textField = pattern.linkTextField;
+  const links = parentObj[pattern.linksKey];
   return (
     Array.isArray(links) &&
     links.length > 0 &&
@@ -376,14 +477,13 @@ export function sectionHasLinks(
 export function getLinkTextKeyPaths(
   parentPath: string,
   linksCount: number,
-  patterns: LinkedContentPattern[] = [],
+  pattern: LinkedContentPattern,
 ): string[] {
-  const linksKey = patterns.length > 0 ? patterns[0].linksKey : "links";
-  const textField = patterns.length > 0 ? patterns[0].linkTextField : "text";
-
   const paths: string[] = [];
   for (let i = 0; i < linksCount; i++) {
-    paths.push(`${parentPath}.${linksKey}.${i}.${textField}`);
+    paths.push(
+      `${parentPath}.${pattern.linksKey}.${i}.${pattern.linkTextField}`,
+    );
   }
   return paths;
 }
@@ -394,15 +494,13 @@ export function getLinkTextKeyPaths(
 export function getLinkTextsFromSection(
   obj: TranslationFile,
   parentPath: string,
-  patterns: LinkedContentPattern[] = [],
+  pattern: LinkedContentPattern,
 ): string[] {
   const parent = getValueAtPath(obj, parentPath);
   if (typeof parent !== "object" || parent === null) return [];
 
-  const linksKey = patterns.length > 0 ? patterns[0].linksKey : "links";
-  const textField = patterns.length > 0 ? patterns[0].linkTextField : "text";
-
-  const links = (parent as Record<string, unknown>)[linksKey];
+  const textField = pattern.linkTextField;
+  const links = (parent as Record<string, unknown>)[pattern.linksKey];
   if (!Array.isArray(links)) return [];
   return links
     .map((item) =>
@@ -575,15 +673,20 @@ export function deepClone<T>(obj: T): T {
  * Check if a string contains ICU message format placeholders
  */
 export function hasPlaceholders(str: string): boolean {
-  return /\{[^}]+\}/.test(str);
+  return extractPlaceholders(str).length > 0;
 }
 
 /**
- * Extract placeholders from a string
+ * Extract the argument names used in an ICU message, including arguments
+ * nested in plural/select branches, each listed once in order of appearance.
+ * Strings that aren't valid ICU fall back to a best-effort scan for `{name`.
  */
 export function extractPlaceholders(str: string): string[] {
-  const matches = str.match(/\{([^}]+)\}/g);
-  return matches ? matches.map((m) => m.slice(1, -1)) : [];
+  const nodes = tryParseMessage(str);
+  const names = nodes
+    ? collectArguments(nodes).map((arg) => arg.name)
+    : [...str.matchAll(/\{\s*([^\s{},#]+)/g)].map((m) => m[1]);
+  return [...new Set(names)];
 }
 
 // ============================================================================
@@ -670,6 +773,19 @@ function similarityScore(a: Set<string>, b: Set<string>): number {
   return overlap / union;
 }
 
+/**
+ * Word-overlap similarity of two English strings, between 0 and 1.
+ * Strings without significant words only match when identical.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const tokensA = tokenize(a);
+  const tokensB = tokenize(b);
+  if (tokensA.size === 0 && tokensB.size === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0;
+  }
+  return similarityScore(tokensA, tokensB);
+}
+
 /**
  * Build an index of English → target language pairs from the existing
  * target file, keyed by English value. Only includes string values.
@@ -735,20 +851,143 @@ export function findSimilarExamples(
 // Glossary helpers
 // ============================================================================
 
+/** Where an entry of the merged glossary comes from */
+export interface GlossaryTermOrigin {
+  /** The glossary file that defines the entry */
+  file: string;
+  /** Glossary files whose entry for the same term it replaces */
+  overrides: string[];
+}
+
+/** Origins of the entries returned by loadGlossary */
+const glossaryTermOrigins = new WeakMap<GlossaryEntry, GlossaryTermOrigin>();
+
+/**
+ * Read a glossary file as written, without its extended glossaries
+ */
+function readGlossaryJson(filePath: string): Glossary {
+  const glossary = JSON.parse(fs.readFileSync(filePath, "utf-8")) as Glossary;
+  const parents = glossary.extends;
+  if (
+    parents !== undefined &&
+    typeof parents !== "string" &&
+    !(Array.isArray(parents) && parents.every((p) => typeof p === "string"))
+  ) {
+    throw new Error(
+      `"extends" in ${filePath} must be a path or an array of paths`,
+    );
+  }
+  return { ...glossary, protectedTerms: glossary.protectedTerms || [] };
+}
+
+/**
+ * Collect the terms of a glossary file and the files it extends, keyed by
+ * lowercased term. Extended files are applied in order, then the file's own
+ * terms; an entry replaces any earlier entry for the same term.
+ */
+function collectGlossaryTerms(
+  filePath: string,
+  chain: string[],
+): Map<string, { entry: GlossaryEntry; origin: GlossaryTermOrigin }> {
+  if (chain.includes(filePath)) {
+    throw new Error(
+      `Glossary extends itself: ${[...chain, filePath].join(" → ")}`,
+    );
+  }
+  const glossary = readGlossaryJson(filePath);
+  const terms = new Map<
+    string,
+    { entry: GlossaryEntry; origin: GlossaryTermOrigin }
+  >();
+  const add = (entry: GlossaryEntry, origin: GlossaryTermOrigin) => {
+    const key = entry.term.toLowerCase();
+    const previous = terms.get(key);
+    terms.set(key, {
+      entry,
+      origin: previous
+        ? {
+            file: origin.file,
+            overrides: [
+              ...new Set([
+                ...origin.overrides,
+                previous.origin.file,
+                ...previous.origin.overrides,
+              ]),
+            ],
+          }
+        : origin,
+    });
+  };
+
+  const parents =
+    typeof glossary.extends === "string"
+      ? [glossary.extends]
+      : glossary.extends || [];
+  for (const parent of parents) {
+    const parentPath = path.resolve(path.dirname(filePath), parent);
+    if (!fs.existsSync(parentPath)) {
+      throw new Error(
+        `Extended glossary not found: ${parentPath} (extended by ${filePath})`,
+      );
+    }
+    for (const { entry, origin } of collectGlossaryTerms(parentPath, [
+      ...chain,
+      filePath,
+    ]).values()) {
+      add(entry, origin);
+    }
+  }
+  for (const entry of glossary.protectedTerms) {
+    add(entry, { file: filePath, overrides: [] });
+  }
+
+  return terms;
+}
+
 /**
- * Load the glossary file. Returns an empty glossary if the file doesn't exist.
+ * Load the glossary with the terms of the glossaries it extends (see
+ * Glossary.extends). Returns an empty glossary if the file doesn't exist.
+ * Use loadLocalGlossary to edit the file itself.
  */
 export function loadGlossary(): Glossary {
   const gPath = getGlossaryPath();
   if (!fs.existsSync(gPath)) {
     return { protectedTerms: [] };
   }
-  const raw = fs.readFileSync(gPath, "utf-8");
-  return JSON.parse(raw) as Glossary;
+
+  const { _description } = readGlossaryJson(gPath);
+  const protectedTerms: GlossaryEntry[] = [];
+  for (const { entry, origin } of collectGlossaryTerms(gPath, []).values()) {
+    glossaryTermOrigins.set(entry, origin);
+    protectedTerms.push(entry);
+  }
+  return { ...(_description && { _description }), protectedTerms };
+}
+
+/**
+ * Load the glossary file as written, without inherited terms. Returns an
+ * empty glossary if the file doesn't exist.
+ */
+export function loadLocalGlossary(): Glossary {
+  const gPath = getGlossaryPath();
+  if (!fs.existsSync(gPath)) {
+    return { protectedTerms: [] };
+  }
+  return readGlossaryJson(gPath);
 }
 
 /**
- * Save the glossary file.
+ * Get the file an entry returned by loadGlossary comes from, and the
+ * extended files whose entry for the same term it replaces
+ */
+export function getGlossaryTermOrigin(
+  entry: GlossaryEntry,
+): GlossaryTermOrigin | undefined {
+  return glossaryTermOrigins.get(entry);
+}
+
+/**
+ * Save the glossary file (the project's own terms, see loadLocalGlossary).
  */
 export function saveGlossary(glossary: Glossary): void {
   const gPath = getGlossaryPath();
@@ -772,11 +1011,17 @@ export function buildGlossaryPromptSection(
   const lines: string[] = [];
   for (const entry of glossary.protectedTerms) {
     const override = entry.translations[targetLanguageCode];
+    const forbidden = entry.forbidden?.[targetLanguageCode] || [];
+    const never = forbidden.length
+      ? `, never as ${forbidden.map((f) => `"${f}"`).join(" or ")}`
+      : "";
     if (override) {
-      lines.push(`   - "${entry.term}" → "${override}" (${entry.description})`);
+      lines.push(
+        `   - "${entry.term}" → "${override}"${never} (${entry.description})`,
+      );
     } else {
       lines.push(
-        `   - "${entry.term}" — keep as "${entry.term}" (${entry.description})`,
+        `   - "${entry.term}" — keep as "${entry.term}"${never} (${entry.description})`,
       );
     }
   }
@@ -788,6 +1033,6 @@ ${lines.join("\n")}`;
 /**
  * Escape special regex characters in a string
  */
-function escapeRegex(str: string): string {
+export function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
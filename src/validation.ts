@@ -0,0 +1,279 @@
+/**
+ * Translation validation — checks a translated string against its source
+ * and describes every problem in a form that can be sent back to the model
+ */
+
+import type {
+  IcuNode,
+  IcuPluralNode,
+  IcuSelectNode,
+  LanguageInfo,
+  PluralCategory,
+} from "./types.js";
+import {
+  parseMessage,
+  tryParseMessage,
+  collectArguments,
+  getArgumentKind,
+  describeArgument,
+  measureMessageLength,
+  IcuParseError,
+} from "./icu.js";
+import type { IcuArgument } from "./icu.js";
+
+/**
+ * Count occurrences of each argument name
+ */
+function countArguments(args: IcuArgument[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const { name } of args) {
+    counts.set(name, (counts.get(name) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Map each argument name to its first occurrence
+ */
+function indexArguments(args: IcuArgument[]): Map<string, IcuArgument> {
+  const index = new Map<string, IcuArgument>();
+  for (const arg of args) {
+    if (!index.has(arg.name)) index.set(arg.name, arg);
+  }
+  return index;
+}
+
+/**
+ * Get the sorted, de-duplicated argument names used in a branch
+ */
+function branchArgumentNames(branch: IcuNode[]): string[] {
+  return [...new Set(collectArguments(branch).map((arg) => arg.name))].sort();
+}
+
+/**
+ * Compare the branches of a plural/select argument. Select keys are
+ * application values and must match exactly; for plurals only the exact
+ * `=N` selectors are checked, since categories differ between languages.
+ * Branches present in both must use the same arguments.
+ */
+function validateBranches(
+  source: IcuPluralNode | IcuSelectNode,
+  translated: IcuPluralNode | IcuSelectNode,
+): string[] {
+  const problems: string[] = [];
+  const label = describeArgument(source);
+  const sourceSelectors = Object.keys(source.options);
+  const translatedSelectors = Object.keys(translated.options);
+
+  const required =
+    source.type === "select"
+      ? sourceSelectors
+      : sourceSelectors.filter((selector) => selector.startsWith("="));
+  const missing = required.filter((s) => !translatedSelectors.includes(s));
+  if (missing.length > 0) {
+    problems.push(`${label} is missing branches: ${missing.join(", ")}`);
+  }
+
+  if (source.type === "select") {
+    const extra = translatedSelectors.filter(
+      (s) => !sourceSelectors.includes(s),
+    );
+    if (extra.length > 0) {
+      problems.push(
+        `${label} has branches not in the source: ${extra.join(", ")}. Select keys must not be translated.`,
+      );
+    }
+  }
+
+  if (
+    source.type === "plural" &&
+    translated.type === "plural" &&
+    source.offset !== translated.offset
+  ) {
+    problems.push(
+      `${label} must keep offset:${source.offset} but has offset:${translated.offset}`,
+    );
+  }
+
+  for (const selector of required) {
+    const translatedBranch = translated.options[selector];
+    if (!translatedBranch) continue;
+    const expected = branchArgumentNames(source.options[selector]);
+    const actual = branchArgumentNames(translatedBranch);
+    if (expected.join(",") !== actual.join(",")) {
+      const list = (names: string[]) =>
+        names.length > 0 ? names.map((n) => `{${n}}`).join(", ") : "none";
+      problems.push(
+        `Branch "${selector}" of ${label} must contain placeholders ${list(expected)} but has ${list(actual)}`,
+      );
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Compare the placeholders of a translation against its source: argument
+ * names, argument types/styles and plural/select structure.
+ * Returns human-readable problems; an empty array means they match.
+ * Sources that aren't valid ICU can't be checked and always pass.
+ */
+export function validatePlaceholders(
+  source: string,
+  translated: string,
+): string[] {
+  const sourceNodes = tryParseMessage(source);
+  if (!sourceNodes) return [];
+
+  let translatedNodes: IcuNode[];
+  try {
+    translatedNodes = parseMessage(translated);
+  } catch (error) {
+    if (error instanceof IcuParseError) {
+      return [`Invalid ICU MessageFormat syntax: ${error.message}`];
+    }
+    throw error;
+  }
+
+  const problems: string[] = [];
+  const sourceArgs = collectArguments(sourceNodes);
+  const translatedArgs = collectArguments(translatedNodes);
+  const sourceCounts = countArguments(sourceArgs);
+  const translatedCounts = countArguments(translatedArgs);
+
+  const missing: string[] = [];
+  const extra: string[] = [];
+  for (const [name, count] of sourceCounts) {
+    const found = translatedCounts.get(name) || 0;
+    if (found < count) missing.push(name);
+  }
+  for (const [name, count] of translatedCounts) {
+    const expected = sourceCounts.get(name) || 0;
+    if (count > expected) extra.push(name);
+  }
+
+  if (missing.length > 0 && missing.length === extra.length) {
+    problems.push(
+      `Placeholders were renamed: ${missing.map((m, i) => `{${m}} became {${extra[i]}}`).join(", ")}. Placeholder names must never be translated or changed.`,
+    );
+  } else {
+    if (missing.length > 0) {
+      problems.push(
+        `Missing placeholders: ${missing.map((p) => `{${p}}`).join(", ")}`,
+      );
+    }
+    if (extra.length > 0) {
+      problems.push(
+        `Unexpected placeholders not in the source: ${extra.map((p) => `{${p}}`).join(", ")}`,
+      );
+    }
+  }
+
+  const translatedIndex = indexArguments(translatedArgs);
+  for (const [name, sourceArg] of indexArguments(sourceArgs)) {
+    const translatedArg = translatedIndex.get(name);
+    if (!translatedArg) continue;
+
+    const sameStyle =
+      sourceArg.type !== "argument" ||
+      translatedArg.type !== "argument" ||
+      sourceArg.style === translatedArg.style;
+    if (
+      getArgumentKind(sourceArg) !== getArgumentKind(translatedArg) ||
+      !sameStyle
+    ) {
+      problems.push(
+        `${describeArgument(sourceArg)} must keep its form but became ${describeArgument(translatedArg)}`,
+      );
+      continue;
+    }
+
+    if (sourceArg.type !== "argument" && translatedArg.type !== "argument") {
+      problems.push(...validateBranches(sourceArg, translatedArg));
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Get the plural categories a plural argument must use in a language
+ */
+export function getRequiredPluralCategories(
+  arg: IcuPluralNode,
+  language: LanguageInfo,
+): PluralCategory[] {
+  return arg.ordinal ? language.ordinalCategories : language.pluralCategories;
+}
+
+/**
+ * Check that every plural/selectordinal argument of a translation uses
+ * exactly the CLDR categories of the target language (plus any `=N` branches).
+ * Returns human-readable problems; an empty array means they match.
+ */
+export function validatePluralCategories(
+  translated: string,
+  language: LanguageInfo,
+): string[] {
+  const nodes = tryParseMessage(translated);
+  if (!nodes) return [];
+
+  const problems: string[] = [];
+  for (const arg of collectArguments(nodes)) {
+    if (arg.type !== "plural") continue;
+
+    const required = getRequiredPluralCategories(arg, language);
+    const categories = Object.keys(arg.options).filter(
+      (selector) => !selector.startsWith("="),
+    );
+    const missing = required.filter((c) => !categories.includes(c));
+    const invalid = categories.filter(
+      (c) => !required.includes(c as PluralCategory),
+    );
+    const label = `{${arg.name}, ${getArgumentKind(arg)}, ...}`;
+
+    if (missing.length > 0) {
+      problems.push(
+        `${label} is missing plural categories required in ${language.name}: ${missing.join(", ")}`,
+      );
+    }
+    if (invalid.length > 0) {
+      problems.push(
+        `${label} uses plural categories that don't exist in ${language.name}: ${invalid.join(", ")}. Use exactly: ${required.join(", ")}`,
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * Run every check on a translated string. Returns an empty array when the
+ * translation is acceptable.
+ */
+export function validateTranslation(
+  source: string,
+  translated: string,
+  targetLanguage: LanguageInfo,
+): string[] {
+  const problems = validatePlaceholders(source, translated);
+  // Category problems are only meaningful once the structure is valid
+  if (problems.length > 0) return problems;
+  return validatePluralCategories(translated, targetLanguage);
+}
+
+/**
+ * Check a translation against its key's hard length limit (see
+ * measureMessageLength for how plurals are counted)
+ */
+export function validateLength(
+  translated: string,
+  maxLength: number | undefined,
+): string[] {
+  if (!maxLength) return [];
+  const length = measureMessageLength(translated);
+  return length > maxLength
+    ? [
+        `Too long: ${length} characters, the hard limit is ${maxLength}. Use shorter words or rephrase; keep the meaning and every placeholder`,
+      ]
+    : [];
+}